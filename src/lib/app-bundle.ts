@@ -0,0 +1,217 @@
+import JSZip from "jszip";
+import {
+  resolveDependencies,
+  detectEntrypoint,
+  mergeDependencies,
+  pinDependencies,
+  checkDependencyPolicy,
+  discoverAppActions,
+  rewriteImportSpecifiers,
+  readDeclaredDependencies,
+  syncProjectFiles,
+  ManifestUpdate,
+  MergeReport,
+  PolicyReport,
+  DependencyPolicySettings,
+  AppManifest,
+  detectLanguage,
+  SupportedLanguage,
+  ResolverOptions,
+} from "./dependency-resolver";
+import { BundleLimits, prepareBundleFiles } from "./bundle-files";
+import {
+  LOCKFILE_NAME,
+  readLockfile,
+  renderLockfile,
+} from "./resolvers/lockfile";
+
+export interface AppBundle {
+  entrypoint: string;
+  language: SupportedLanguage;
+  discoveredPackages: string[];
+  unresolved: string[];
+  optionalPackages: string[];
+  // Versions looked up for imported packages, before provided ones are merged
+  discoveredDependencies: Record<string, string>;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  // Dependencies already declared by manifests in the supplied files
+  declaredDependencies: Record<string, string>;
+  manifests: {
+    generated: string[];
+    updated: ManifestUpdate[];
+  };
+  // Overrides, conflicts and the exact versions dependencies resolve to
+  mergeReport: MergeReport;
+  // Exact versions recorded for a pinned deploy, or null when not pinned
+  pins: Record<string, string> | null;
+  // Denylist, advisory and license findings; a blocked bundle must not be
+  // deployed
+  policy: PolicyReport;
+  // Apps and actions the source defines, found without running it
+  app: AppManifest;
+  files: Record<string, string>;
+  // Registry credentials to pass as the deployment's env vars; the bundle's
+  // files only reference them
+  env: Record<string, string>;
+  // Decoded binary assets, shipped alongside the text files
+  binaryFiles: Record<string, Buffer>;
+  // Supplied paths left out by ignore rules
+  ignoredFiles: string[];
+}
+
+/**
+ * Run the dependency-resolver pipeline over a set of source files
+ * Returns the full file map that should be shipped, including generated manifests
+ *
+ * In pinned mode dependencies are written as exact versions and a lockfile is
+ * added to the bundle. Pins from a lockfile in the files, or passed in `pins`,
+ * are reused so a redeploy resolves to the same versions; supplying either
+ * turns pinned mode on.
+ *
+ * Files matched by ignore rules are dropped before anything else runs, and
+ * size limits are enforced on what remains; binary assets are base64 encoded
+ * and shipped without being scanned.
+ *
+ * The final dependencies are checked against the dependency policy; findings
+ * are reported on the bundle, which is marked blocked when the org enforces
+ * the policy.
+ */
+export async function buildAppBundle({
+  files: suppliedFiles,
+  binaryFiles: suppliedBinaryFiles,
+  entrypoint,
+  dependencies,
+  resolverOptions,
+  pin = false,
+  pins,
+  limits,
+  policy,
+}: {
+  files: Record<string, string>;
+  binaryFiles?: Record<string, string>;
+  entrypoint?: string;
+  dependencies?: Record<string, string>;
+  resolverOptions?: ResolverOptions;
+  pin?: boolean;
+  pins?: Record<string, string>;
+  limits?: BundleLimits;
+  policy?: DependencyPolicySettings;
+}): Promise<AppBundle> {
+  const { files, binaryFiles, ignored } = prepareBundleFiles({
+    files: suppliedFiles,
+    binaryFiles: suppliedBinaryFiles,
+    limits,
+  });
+  if (entrypoint && ignored.includes(entrypoint)) {
+    throw new Error(`Entrypoint "${entrypoint}" is excluded by ignore rules`);
+  }
+
+  const entrypointPath = detectEntrypoint(files, entrypoint);
+  const language = detectLanguage(entrypointPath);
+
+  const lockfile = readLockfile(files);
+  if (lockfile && lockfile.language !== language) {
+    console.warn(
+      `Ignoring ${LOCKFILE_NAME} written for ${lockfile.language}, app is ${language}`,
+    );
+  }
+  const recordedPins = lockfile?.language === language ? lockfile.packages : {};
+  const pinned = pin || pins !== undefined || lockfile !== null;
+
+  // Packages the user's own manifests declare don't need registry lookups;
+  // provided ones are still looked up so overrides can be reported
+  const declaredDependencies = readDeclaredDependencies(entrypointPath, files);
+  const resolved = await resolveDependencies(
+    files,
+    declaredDependencies,
+    resolverOptions,
+  );
+  const merged = await mergeDependencies(
+    resolved.dependencies,
+    dependencies,
+    entrypointPath,
+    files,
+    resolverOptions,
+    pinned ? { ...recordedPins, ...pins } : {},
+  );
+  const finalDependencies = pinned
+    ? pinDependencies(entrypointPath, merged.dependencies, merged.report.pinned)
+    : merged.dependencies;
+  const policyReport = await checkDependencyPolicy(
+    entrypointPath,
+    finalDependencies,
+    merged.report.pinned,
+    policy,
+    resolverOptions,
+  );
+  const devDependencies = resolved.devDependencies ?? {};
+  // A pinned deploy also pins what the user's manifests declare, since the
+  // lockfile isn't read at install time
+  const manifestDependencies = pinned
+    ? {
+        ...pinDependencies(
+          entrypointPath,
+          declaredDependencies,
+          merged.report.pinned,
+        ),
+        ...finalDependencies,
+      }
+    : finalDependencies;
+  const projectFiles = syncProjectFiles(
+    entrypointPath,
+    manifestDependencies,
+    devDependencies,
+    files,
+    resolverOptions,
+  );
+
+  return {
+    entrypoint: entrypointPath,
+    language,
+    discoveredPackages: resolved.discoveredPackages,
+    unresolved: resolved.unresolved ?? [],
+    optionalPackages: resolved.optionalPackages ?? [],
+    discoveredDependencies: resolved.dependencies,
+    dependencies: finalDependencies,
+    devDependencies,
+    declaredDependencies,
+    manifests: {
+      generated: projectFiles.generated,
+      updated: projectFiles.updated,
+    },
+    mergeReport: merged.report,
+    pins: pinned ? merged.report.pinned : null,
+    policy: policyReport,
+    app: discoverAppActions(files),
+    // Registry-prefixed and pinned imports are rewritten; the pins now live
+    // in the manifests
+    files: {
+      ...rewriteImportSpecifiers(files),
+      ...projectFiles.files,
+      ...(pinned && {
+        [LOCKFILE_NAME]: renderLockfile(language, merged.report.pinned),
+      }),
+    },
+    env: projectFiles.env,
+    binaryFiles,
+    ignoredFiles: ignored,
+  };
+}
+
+/**
+ * Zip a bundle's files into a buffer suitable for upload
+ */
+export async function zipAppBundle(bundle: AppBundle): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(bundle.files)) {
+    zip.file(path, content);
+  }
+  for (const [path, content] of Object.entries(bundle.binaryFiles)) {
+    zip.file(path, content);
+  }
+  return await zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+  });
+}
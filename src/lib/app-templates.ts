@@ -0,0 +1,559 @@
+import ts from "typescript";
+import { format } from "prettier";
+import {
+  generateProjectFiles,
+  resolveDependencies,
+  ResolverOptions,
+  SupportedLanguage,
+} from "./dependency-resolver";
+
+export const TEMPLATE_KINDS = [
+  "browser-scraper",
+  "computer-use-agent",
+  "form-filler",
+] as const;
+
+export type TemplateKind = (typeof TEMPLATE_KINDS)[number];
+
+export interface AppTemplate {
+  entrypoint: string;
+  files: Record<string, string>;
+  actions: string[];
+}
+
+interface TemplateSource {
+  summary: string;
+  defaultAction: string;
+  // Example payload shown in the README
+  examplePayload: Record<string, unknown>;
+  typescript: string;
+  python: string;
+  // Standard library imports the Python source needs
+  pythonImports: string;
+  // Name of the handler function the actions are registered with
+  handler: { typescript: string; python: string };
+}
+
+const ENTRYPOINTS: Record<SupportedLanguage, string> = {
+  typescript: "index.ts",
+  javascript: "index.js",
+  python: "main.py",
+};
+
+// Action names become part of invocation URLs and CLI arguments
+const ACTION_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+// Shared by every TypeScript template: connect Playwright to a Kernel browser
+// created for the invocation and clean it up afterwards
+const TS_HEADER = (
+  appName: string,
+) => `import { Kernel, type KernelContext } from "@onkernel/sdk";
+import { chromium } from "playwright-core";
+
+const kernel = new Kernel();
+
+const app = kernel.app(${JSON.stringify(appName)});
+`;
+
+const PY_HEADER = (appName: string, stdlibImports: string) => `${stdlibImports}
+
+import kernel
+from kernel import Kernel
+from playwright.async_api import async_playwright
+
+client = Kernel()
+
+app = kernel.App(${JSON.stringify(appName)})
+`;
+
+const TEMPLATES: Record<TemplateKind, TemplateSource> = {
+  "browser-scraper": {
+    summary:
+      "Opens a page in a Kernel browser and returns its title and the text of the elements matching a selector.",
+    defaultAction: "scrape",
+    examplePayload: { url: "https://example.com", selector: "h1" },
+    handler: { typescript: "scrape", python: "scrape" },
+    pythonImports: "from typing import Dict, TypedDict",
+    typescript: `
+interface ScrapeInput {
+  // Page to scrape
+  url: string;
+  // CSS selector whose text is returned; defaults to the whole page
+  selector?: string;
+}
+
+interface ScrapeOutput {
+  url: string;
+  title: string;
+  text: string[];
+}
+
+async function scrape(
+  ctx: KernelContext,
+  payload?: ScrapeInput,
+): Promise<ScrapeOutput> {
+  if (!payload?.url) {
+    throw new Error("url is required");
+  }
+
+  const kernelBrowser = await kernel.browsers.create({
+    invocation_id: ctx.invocation_id,
+  });
+  const browser = await chromium.connectOverCDP(kernelBrowser.cdp_ws_url);
+  try {
+    const context = browser.contexts()[0] ?? (await browser.newContext());
+    const page = context.pages()[0] ?? (await context.newPage());
+    await page.goto(payload.url, { waitUntil: "domcontentloaded" });
+    const text = await page.locator(payload.selector ?? "body").allInnerTexts();
+    return { url: page.url(), title: await page.title(), text };
+  } finally {
+    await browser.close();
+    await kernel.browsers.deleteByID(kernelBrowser.session_id);
+  }
+}
+`,
+    python: `
+
+class ScrapeInput(TypedDict, total=False):
+    # Page to scrape
+    url: str
+    # CSS selector whose text is returned; defaults to the whole page
+    selector: str
+
+
+async def scrape(ctx: kernel.KernelContext, payload: ScrapeInput) -> Dict:
+    if not payload or not payload.get("url"):
+        raise ValueError("url is required")
+
+    kernel_browser = client.browsers.create(invocation_id=ctx.invocation_id)
+    try:
+        async with async_playwright() as playwright:
+            browser = await playwright.chromium.connect_over_cdp(
+                kernel_browser.cdp_ws_url
+            )
+            context = (
+                browser.contexts[0] if browser.contexts else await browser.new_context()
+            )
+            page = context.pages[0] if context.pages else await context.new_page()
+            await page.goto(payload["url"], wait_until="domcontentloaded")
+            text = await page.locator(
+                payload.get("selector") or "body"
+            ).all_inner_texts()
+            result = {"url": page.url, "title": await page.title(), "text": text}
+            await browser.close()
+            return result
+    finally:
+        client.browsers.delete_by_id(kernel_browser.session_id)
+`,
+  },
+
+  "form-filler": {
+    summary:
+      "Opens a page in a Kernel browser, fills form fields by CSS selector and optionally submits the form.",
+    defaultAction: "fill-form",
+    examplePayload: {
+      url: "https://example.com/contact",
+      fields: { "#name": "Ada Lovelace", "#email": "ada@example.com" },
+      submitSelector: "button[type=submit]",
+    },
+    handler: { typescript: "fillForm", python: "fill_form" },
+    pythonImports: "from typing import Dict, TypedDict",
+    typescript: `
+interface FillFormInput {
+  // Page containing the form
+  url: string;
+  // CSS selector -> value to enter
+  fields: Record<string, string>;
+  // Element to click once the fields are filled
+  submitSelector?: string;
+}
+
+interface FillFormOutput {
+  url: string;
+  title: string;
+  submitted: boolean;
+}
+
+async function fillForm(
+  ctx: KernelContext,
+  payload?: FillFormInput,
+): Promise<FillFormOutput> {
+  if (!payload?.url || !payload.fields) {
+    throw new Error("url and fields are required");
+  }
+
+  const kernelBrowser = await kernel.browsers.create({
+    invocation_id: ctx.invocation_id,
+  });
+  const browser = await chromium.connectOverCDP(kernelBrowser.cdp_ws_url);
+  try {
+    const context = browser.contexts()[0] ?? (await browser.newContext());
+    const page = context.pages()[0] ?? (await context.newPage());
+    await page.goto(payload.url, { waitUntil: "domcontentloaded" });
+    for (const [selector, value] of Object.entries(payload.fields)) {
+      await page.fill(selector, value);
+    }
+    if (payload.submitSelector) {
+      await page.click(payload.submitSelector);
+      await page.waitForLoadState("domcontentloaded");
+    }
+    return {
+      url: page.url(),
+      title: await page.title(),
+      submitted: Boolean(payload.submitSelector),
+    };
+  } finally {
+    await browser.close();
+    await kernel.browsers.deleteByID(kernelBrowser.session_id);
+  }
+}
+`,
+    python: `
+
+class FillFormInput(TypedDict, total=False):
+    # Page containing the form
+    url: str
+    # CSS selector -> value to enter
+    fields: Dict[str, str]
+    # Element to click once the fields are filled
+    submitSelector: str
+
+
+async def fill_form(ctx: kernel.KernelContext, payload: FillFormInput) -> Dict:
+    if not payload or not payload.get("url") or not payload.get("fields"):
+        raise ValueError("url and fields are required")
+
+    kernel_browser = client.browsers.create(invocation_id=ctx.invocation_id)
+    try:
+        async with async_playwright() as playwright:
+            browser = await playwright.chromium.connect_over_cdp(
+                kernel_browser.cdp_ws_url
+            )
+            context = (
+                browser.contexts[0] if browser.contexts else await browser.new_context()
+            )
+            page = context.pages[0] if context.pages else await context.new_page()
+            await page.goto(payload["url"], wait_until="domcontentloaded")
+            for selector, value in payload["fields"].items():
+                await page.fill(selector, value)
+            submit = payload.get("submitSelector")
+            if submit:
+                await page.click(submit)
+                await page.wait_for_load_state("domcontentloaded")
+            result = {
+                "url": page.url,
+                "title": await page.title(),
+                "submitted": bool(submit),
+            }
+            await browser.close()
+            return result
+    finally:
+        client.browsers.delete_by_id(kernel_browser.session_id)
+`,
+  },
+
+  "computer-use-agent": {
+    summary:
+      "Opens a page in a Kernel browser, then drives it with mouse and keyboard steps through Kernel's computer controls and returns a screenshot of the result. Replace the supplied steps with ones chosen by a model from screenshots to turn it into an autonomous agent.",
+    defaultAction: "run-steps",
+    examplePayload: {
+      url: "https://example.com",
+      steps: [
+        { type: "click", x: 640, y: 360 },
+        { type: "type", text: "hello" },
+        { type: "key", keys: ["Return"] },
+      ],
+    },
+    handler: { typescript: "runSteps", python: "run_steps" },
+    pythonImports: "import base64\nfrom typing import Dict, List, TypedDict",
+    typescript: `
+// One mouse or keyboard step, in screen coordinates
+type Step =
+  | { type: "click"; x: number; y: number }
+  | { type: "type"; text: string }
+  | { type: "key"; keys: string[] }
+  | { type: "scroll"; x: number; y: number; delta_y: number }
+  | { type: "wait"; ms: number };
+
+interface RunStepsInput {
+  // Page to start from
+  url: string;
+  // Steps to perform in order
+  steps: Step[];
+}
+
+interface RunStepsOutput {
+  steps_run: number;
+  // Base64-encoded PNG of the screen after the last step
+  screenshot: string;
+}
+
+async function runSteps(
+  ctx: KernelContext,
+  payload?: RunStepsInput,
+): Promise<RunStepsOutput> {
+  if (!payload?.url) {
+    throw new Error("url is required");
+  }
+
+  const kernelBrowser = await kernel.browsers.create({
+    invocation_id: ctx.invocation_id,
+  });
+  const id = kernelBrowser.session_id;
+  const browser = await chromium.connectOverCDP(kernelBrowser.cdp_ws_url);
+  try {
+    const context = browser.contexts()[0] ?? (await browser.newContext());
+    const page = context.pages()[0] ?? (await context.newPage());
+    await page.goto(payload.url, { waitUntil: "domcontentloaded" });
+
+    const steps = payload.steps ?? [];
+    for (const step of steps) {
+      switch (step.type) {
+        case "click":
+          await kernel.browsers.computer.clickMouse(id, { x: step.x, y: step.y });
+          break;
+        case "type":
+          await kernel.browsers.computer.typeText(id, { text: step.text });
+          break;
+        case "key":
+          await kernel.browsers.computer.pressKey(id, { keys: step.keys });
+          break;
+        case "scroll":
+          await kernel.browsers.computer.scroll(id, {
+            x: step.x,
+            y: step.y,
+            delta_y: step.delta_y,
+          });
+          break;
+        case "wait":
+          await new Promise((resolve) => setTimeout(resolve, step.ms));
+          break;
+      }
+    }
+
+    const screenshot = await kernel.browsers.computer.captureScreenshot(id);
+    return {
+      steps_run: steps.length,
+      screenshot: Buffer.from(await screenshot.arrayBuffer()).toString("base64"),
+    };
+  } finally {
+    await browser.close();
+    await kernel.browsers.deleteByID(id);
+  }
+}
+`,
+    python: `
+
+class RunStepsInput(TypedDict, total=False):
+    # Page to start from
+    url: str
+    # Steps to perform in order, e.g. {"type": "click", "x": 10, "y": 20},
+    # {"type": "type", "text": "hi"}, {"type": "key", "keys": ["Return"]},
+    # {"type": "scroll", "x": 0, "y": 0, "delta_y": 300} or
+    # {"type": "wait", "ms": 500}
+    steps: List[Dict]
+
+
+async def run_steps(ctx: kernel.KernelContext, payload: RunStepsInput) -> Dict:
+    if not payload or not payload.get("url"):
+        raise ValueError("url is required")
+
+    kernel_browser = client.browsers.create(invocation_id=ctx.invocation_id)
+    session_id = kernel_browser.session_id
+    try:
+        async with async_playwright() as playwright:
+            browser = await playwright.chromium.connect_over_cdp(
+                kernel_browser.cdp_ws_url
+            )
+            context = (
+                browser.contexts[0] if browser.contexts else await browser.new_context()
+            )
+            page = context.pages[0] if context.pages else await context.new_page()
+            await page.goto(payload["url"], wait_until="domcontentloaded")
+
+            steps = payload.get("steps") or []
+            for step in steps:
+                kind = step.get("type")
+                if kind == "click":
+                    client.browsers.computer.click_mouse(
+                        session_id, x=step["x"], y=step["y"]
+                    )
+                elif kind == "type":
+                    client.browsers.computer.type_text(session_id, text=step["text"])
+                elif kind == "key":
+                    client.browsers.computer.press_key(session_id, keys=step["keys"])
+                elif kind == "scroll":
+                    client.browsers.computer.scroll(
+                        session_id, x=step["x"], y=step["y"], delta_y=step["delta_y"]
+                    )
+                elif kind == "wait":
+                    await page.wait_for_timeout(step["ms"])
+
+            screenshot = client.browsers.computer.capture_screenshot(session_id)
+            await browser.close()
+            return {
+                "steps_run": len(steps),
+                "screenshot": base64.b64encode(screenshot.read()).decode(),
+            }
+    finally:
+        client.browsers.delete_by_id(session_id)
+`,
+  },
+};
+
+/**
+ * Strip TypeScript syntax from a template
+ */
+function toJavaScript(source: string): string {
+  return ts.transpileModule(source, {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+    },
+  }).outputText;
+}
+
+async function renderSource(
+  language: SupportedLanguage,
+  template: TemplateSource,
+  appName: string,
+  actions: string[],
+): Promise<string> {
+  if (language === "python") {
+    const registrations = actions
+      .map(
+        (action) =>
+          `app.action(${JSON.stringify(action)})(${template.handler.python})`,
+      )
+      .join("\n");
+    return `${PY_HEADER(appName, template.pythonImports)}${template.python}\n\n${registrations}\n`;
+  }
+
+  const registrations = actions
+    .map(
+      (action) =>
+        `app.action(${JSON.stringify(action)}, ${template.handler.typescript});`,
+    )
+    .join("\n");
+  const source = `${TS_HEADER(appName)}${template.typescript}\n${registrations}\n`;
+  // The compiler drops blank lines and indents with four spaces, so both
+  // outputs are formatted the same way
+  return language === "javascript"
+    ? await format(toJavaScript(source), { parser: "babel" })
+    : await format(source, { parser: "typescript" });
+}
+
+function renderReadme(
+  language: SupportedLanguage,
+  kind: TemplateKind,
+  template: TemplateSource,
+  appName: string,
+  actions: string[],
+  entrypoint: string,
+): string {
+  const payload = JSON.stringify(template.examplePayload);
+  return `# ${appName}
+
+A Kernel app generated from the \`${kind}\` template (${language}).
+
+${template.summary}
+
+## Actions
+
+${actions.map((action) => `- \`${action}\``).join("\n")}
+
+Example payload:
+
+\`\`\`json
+${JSON.stringify(template.examplePayload, null, 2)}
+\`\`\`
+
+## Deploy
+
+Pass these files to the \`deploy_app\` tool, or deploy with the Kernel CLI:
+
+\`\`\`bash
+kernel deploy ${entrypoint}
+\`\`\`
+
+## Invoke
+
+\`\`\`bash
+kernel invoke ${appName} ${actions[0]} --payload '${payload}'
+\`\`\`
+`;
+}
+
+/**
+ * Build a ready-to-deploy Kernel app from a template
+ * The source registers the template's handler under each action name;
+ * dependency versions are resolved from the registry and written to
+ * manifests generated by the language's resolver
+ */
+export async function createAppTemplate({
+  language,
+  kind,
+  appName,
+  actionNames,
+  resolverOptions,
+}: {
+  language: SupportedLanguage;
+  kind: TemplateKind;
+  appName: string;
+  actionNames?: string[];
+  resolverOptions?: ResolverOptions;
+}): Promise<AppTemplate> {
+  const template = TEMPLATES[kind];
+  if (!template) {
+    throw new Error(
+      `Unknown template "${kind}"; expected one of ${TEMPLATE_KINDS.join(", ")}`,
+    );
+  }
+  if (!appName.trim()) {
+    throw new Error("App name is required");
+  }
+
+  const actions =
+    actionNames && actionNames.length > 0
+      ? Array.from(new Set(actionNames))
+      : [template.defaultAction];
+  const invalid = actions.filter((action) => !ACTION_NAME.test(action));
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid action names: ${invalid.join(", ")}. Use letters, digits, "-" and "_".`,
+    );
+  }
+
+  const entrypoint = ENTRYPOINTS[language];
+  const source = await renderSource(language, template, appName, actions);
+  const resolved = await resolveDependencies(
+    { [entrypoint]: source },
+    {},
+    resolverOptions,
+  );
+  const projectFiles = generateProjectFiles(
+    entrypoint,
+    resolved.dependencies,
+    resolved.devDependencies,
+    resolverOptions,
+    { [entrypoint]: source },
+    appName,
+  );
+
+  return {
+    entrypoint,
+    actions,
+    files: {
+      [entrypoint]: source,
+      ...projectFiles,
+      "README.md": renderReadme(
+        language,
+        kind,
+        template,
+        appName,
+        actions,
+        entrypoint,
+      ),
+    },
+  };
+}
@@ -0,0 +1,465 @@
+// Automated run of the debugging checklist for a browser session: session
+// state, a screenshot, the page Playwright sees, the VM's service logs and a
+// connectivity probe, summed up as categorized issues
+
+import type { Kernel } from "@onkernel/sdk";
+import { readBrowserFile } from "./browser-files";
+import { execInBrowser } from "./browser-exec";
+
+export type DiagnosisCategory =
+  | "session"
+  | "bot_detection"
+  | "network"
+  | "dns"
+  | "browser_crash"
+  | "memory"
+  | "page_unresponsive"
+  | "live_view";
+
+export interface DiagnosisIssue {
+  category: DiagnosisCategory;
+  summary: string;
+  // Log lines and observations that point to the issue
+  evidence: string[];
+  suggestion: string;
+}
+
+export interface LogTail {
+  name: string;
+  path: string;
+  bytes_read?: number;
+  // Lines dropped because they're expected in normal operation
+  expected_filtered?: number;
+  // The last error-looking lines, oldest first
+  error_lines?: string[];
+  error?: string;
+}
+
+export interface ConnectivityProbe {
+  url: string;
+  ok: boolean;
+  http_status?: number;
+  time_ms?: number;
+  exit_code?: number | null;
+  error?: string;
+}
+
+export interface BrowserDiagnosis {
+  session_id: string;
+  session: {
+    created_at: string;
+    headless: boolean;
+    stealth: boolean;
+    timeout_seconds: number;
+    live_view_url?: string;
+    proxy_id?: string;
+  } | null;
+  page: { url: string; title: string; error_code?: string } | null;
+  logs: LogTail[];
+  connectivity: ConnectivityProbe | { skipped: string } | null;
+  issues: DiagnosisIssue[];
+  // Checks that couldn't be run, by name
+  errors: Record<string, string>;
+}
+
+/**
+ * Log entries that show up in every healthy session; the debugging prompt
+ * lists the same entries
+ */
+export const EXPECTED_LOG_ENTRIES = [
+  {
+    pattern: "Failed to call method: org.freedesktop.DBus.Properties.GetAll",
+    note: "- DBus permission (expected in container)",
+  },
+  {
+    pattern: "vkCreateInstance: Found no drivers",
+    note: "- No GPU in VM (expected)",
+  },
+  {
+    pattern: "DEPRECATED_ENDPOINT",
+    note: "for GCM - Google deprecation (harmless)",
+  },
+  {
+    pattern: "SharedImageManager::ProduceMemory",
+    note: "errors - GPU-related (not critical)",
+  },
+];
+
+const VM_LOGS = [
+  { name: "supervisord", path: "/var/log/supervisord.log" },
+  { name: "chromium", path: "/var/log/supervisord/chromium" },
+  { name: "neko", path: "/var/log/supervisord/neko" },
+];
+
+// How much of the end of each log is read, and how many error lines are kept
+const LOG_TAIL_BYTES = 64 * 1024;
+const MAX_ERROR_LINES = 20;
+const MAX_EVIDENCE = 5;
+
+const PAGE_TIMEOUT_SECONDS = 15;
+const PROBE_TIMEOUT_SECONDS = 10;
+const DEFAULT_PROBE_URL = "https://www.google.com";
+
+const DNS_ERROR =
+  /ERR_NAME_NOT_RESOLVED|ERR_NAME_RESOLUTION_FAILED|Temporary failure in name resolution|Could not resolve host/i;
+
+// Log lines that point to an issue; `logs` limits a rule to some logs
+const LOG_RULES: {
+  category: DiagnosisCategory;
+  pattern: RegExp;
+  logs?: string[];
+}[] = [
+  { category: "dns", pattern: DNS_ERROR },
+  {
+    category: "network",
+    pattern:
+      /\bERR_(?:HTTP2_PROTOCOL_ERROR|CONNECTION_[A-Z_]+|TIMED_OUT|SSL_[A-Z_]+|EMPTY_RESPONSE|TUNNEL_CONNECTION_FAILED|PROXY_[A-Z_]+|INTERNET_DISCONNECTED|ADDRESS_UNREACHABLE|NETWORK_CHANGED)\b/,
+  },
+  {
+    category: "memory",
+    pattern:
+      /out of memory|\bOOM\b|oom[-_ ]kill|Cannot allocate memory|std::bad_alloc/i,
+  },
+  {
+    category: "browser_crash",
+    pattern:
+      /exited: chromium|gave up: chromium|chromium entered FATAL|Received signal \d+|renderer process crashed|GPU process exited unexpectedly/i,
+    logs: ["supervisord", "chromium"],
+  },
+  {
+    category: "live_view",
+    pattern: /exited: neko|gave up: neko|neko entered FATAL/,
+    logs: ["supervisord"],
+  },
+  {
+    category: "live_view",
+    pattern: /"level":"(?:error|fatal)"|\b(?:ERR|ERROR|FTL|FATAL)\b/,
+    logs: ["neko"],
+  },
+];
+
+// Anything else worth showing from a log
+const ERROR_LINE =
+  /\b(?:error|fatal|fail(?:ed|ure)?|crash(?:ed)?|exited|killed|ERR|FTL)\b|net::ERR_/i;
+
+// Titles and page text of block pages served by bot protection
+const BOT_DETECTION_PAGE =
+  /access denied|just a moment|attention required|checking your browser|captcha|are you a robot|verify you are (?:a )?human|pardon our interruption|request unsuccessful/i;
+
+const SUGGESTIONS: Record<DiagnosisCategory, string> = {
+  session:
+    "The session may have timed out or been deleted; create a new browser session.",
+  bot_detection:
+    "The site is likely blocking automation. Use stealth: true, a profile with real auth, or shorter session lifetimes.",
+  network:
+    "Check whether curl from the VM reaches the site; if it does, suspect bot detection, otherwise check the proxy and network settings.",
+  dns: "Check /etc/resolv.conf in the VM and the proxy settings, if using one.",
+  browser_crash:
+    "Chrome crashed or was restarted. Check whether the timeout was reached and look for memory issues, or create a new browser session.",
+  memory:
+    "The VM is running out of memory. Close unused tabs or create a new browser session.",
+  page_unresponsive:
+    "The page didn't answer Playwright in time; Chrome may be hung. Take a screenshot to check, or create a new browser session.",
+  live_view:
+    "Live view runs over Neko/WebRTC. Check for a firewall blocking WebRTC and verify the browser isn't headless.",
+};
+
+// Page state read through Playwright; error pages carry Chrome's error code
+const PAGE_STATE_CODE = `return {
+  url: page.url(),
+  title: await page.title(),
+  errorCode: await page.evaluate(() => document.querySelector(".error-code")?.textContent ?? null),
+  text: await page.evaluate(() => (document.body?.innerText ?? "").slice(0, 2000)),
+};`;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Collect issues by category, keeping a few distinct pieces of evidence each
+ */
+function createIssueCollector() {
+  const issues = new Map<DiagnosisCategory, DiagnosisIssue>();
+  return {
+    add(category: DiagnosisCategory, summary: string, evidence?: string) {
+      let issue = issues.get(category);
+      if (!issue) {
+        issue = {
+          category,
+          summary,
+          evidence: [],
+          suggestion: SUGGESTIONS[category],
+        };
+        issues.set(category, issue);
+      }
+      if (
+        evidence &&
+        issue.evidence.length < MAX_EVIDENCE &&
+        !issue.evidence.includes(evidence)
+      ) {
+        issue.evidence.push(evidence);
+      }
+    },
+    has(category: DiagnosisCategory) {
+      return issues.has(category);
+    },
+    list() {
+      return [...issues.values()];
+    },
+  };
+}
+
+/**
+ * Read the end of a VM log, dropping expected entries and keeping lines that
+ * look like errors
+ */
+async function tailLog(
+  client: Kernel,
+  sessionId: string,
+  log: { name: string; path: string },
+): Promise<{ tail: LogTail; lines: string[] }> {
+  try {
+    const file = await readBrowserFile(client, sessionId, log.path, {
+      offset: -LOG_TAIL_BYTES,
+    });
+    let lines = file.content.toString("utf8").split("\n");
+    // The first line is cut off unless the whole file was read
+    if (file.offset > 0) lines = lines.slice(1);
+    lines = lines.map((line) => line.trimEnd()).filter(Boolean);
+    const relevant = lines.filter(
+      (line) =>
+        !EXPECTED_LOG_ENTRIES.some((entry) => line.includes(entry.pattern)),
+    );
+    return {
+      tail: {
+        ...log,
+        bytes_read: file.content.length,
+        expected_filtered: lines.length - relevant.length,
+        error_lines: relevant
+          .filter((line) => ERROR_LINE.test(line))
+          .slice(-MAX_ERROR_LINES),
+      },
+      lines: relevant,
+    };
+  } catch (error) {
+    return { tail: { ...log, error: errorMessage(error) }, lines: [] };
+  }
+}
+
+/**
+ * Fetch a URL with curl from inside the VM
+ */
+async function probeConnectivity(
+  client: Kernel,
+  sessionId: string,
+  url: string,
+): Promise<ConnectivityProbe> {
+  const result = await execInBrowser(client, sessionId, {
+    command: "curl",
+    args: [
+      "-sS",
+      "-o",
+      "/dev/null",
+      "-w",
+      "%{http_code} %{time_total}",
+      "--max-time",
+      String(PROBE_TIMEOUT_SECONDS),
+      url,
+    ],
+    timeoutSeconds: PROBE_TIMEOUT_SECONDS + 5,
+  });
+  const [status, seconds] = result.stdout.trim().split(/\s+/).map(Number);
+  const httpStatus = Number.isFinite(status) && status > 0 ? status : undefined;
+  return {
+    url,
+    ok: result.exitCode === 0 && httpStatus !== undefined,
+    ...(httpStatus !== undefined && { http_status: httpStatus }),
+    ...(Number.isFinite(seconds) && { time_ms: Math.round(seconds * 1000) }),
+    exit_code: result.exitCode,
+    ...(result.stderr.trim() && { error: result.stderr.trim() }),
+  };
+}
+
+/**
+ * Run the debugging checklist against a browser session
+ * Each check is independent: one that fails is recorded under `errors` and
+ * the rest still run. The probe runs curl in the VM, so it's skipped when the
+ * org has disabled exec; without `probeUrl` it fetches the page's own URL
+ */
+export async function diagnoseBrowser(
+  client: Kernel,
+  sessionId: string,
+  { probeUrl, allowExec = true }: { probeUrl?: string; allowExec?: boolean },
+): Promise<{ report: BrowserDiagnosis; screenshot: Buffer | null }> {
+  const issues = createIssueCollector();
+  const errors: Record<string, string> = {};
+  const report: BrowserDiagnosis = {
+    session_id: sessionId,
+    session: null,
+    page: null,
+    logs: [],
+    connectivity: null,
+    issues: [],
+    errors,
+  };
+
+  try {
+    const browser = await client.browsers.retrieve(sessionId);
+    report.session = {
+      created_at: browser.created_at,
+      headless: browser.headless,
+      stealth: browser.stealth,
+      timeout_seconds: browser.timeout_seconds,
+      ...(browser.browser_live_view_url && {
+        live_view_url: browser.browser_live_view_url,
+      }),
+      ...(browser.proxy_id && { proxy_id: browser.proxy_id }),
+    };
+  } catch (error) {
+    // Nothing else can be checked without a session
+    errors.session = errorMessage(error);
+    issues.add(
+      "session",
+      "The session doesn't exist or is no longer active",
+      errors.session,
+    );
+    report.issues = issues.list();
+    return { report, screenshot: null };
+  }
+  if (report.session.headless) {
+    issues.add(
+      "live_view",
+      "Headless browsers have no live view",
+      "headless: true",
+    );
+  }
+
+  const [screenshot, page, logs] = await Promise.all([
+    client.browsers.computer
+      .captureScreenshot(sessionId)
+      .then(async (response) => Buffer.from(await response.arrayBuffer()))
+      .catch((error) => {
+        errors.screenshot = errorMessage(error);
+        return null;
+      }),
+    client.browsers.playwright
+      .execute(sessionId, {
+        code: PAGE_STATE_CODE,
+        timeout_sec: PAGE_TIMEOUT_SECONDS,
+      })
+      .catch((error) => ({
+        success: false,
+        error: errorMessage(error),
+        result: undefined,
+      })),
+    Promise.all(VM_LOGS.map((log) => tailLog(client, sessionId, log))),
+  ]);
+
+  let pageText = "";
+  if (page.success && page.result && typeof page.result === "object") {
+    const state = page.result as {
+      url?: string;
+      title?: string;
+      errorCode?: string | null;
+      text?: string;
+    };
+    report.page = {
+      url: state.url ?? "",
+      title: state.title ?? "",
+      ...(state.errorCode && { error_code: state.errorCode }),
+    };
+    pageText = state.text ?? "";
+  } else {
+    errors.page = page.error ?? "Playwright returned no result";
+    issues.add(
+      "page_unresponsive",
+      "Playwright couldn't read the current page",
+      errors.page,
+    );
+  }
+
+  const errorPage = report.page?.url.startsWith("chrome-error://") ?? false;
+  if (errorPage) {
+    const code = report.page?.error_code;
+    const category = code && DNS_ERROR.test(code) ? "dns" : "network";
+    issues.add(
+      category,
+      "Chrome is showing an error page",
+      code ?? report.page?.title,
+    );
+  }
+  if (
+    report.page &&
+    (BOT_DETECTION_PAGE.test(report.page.title) ||
+      BOT_DETECTION_PAGE.test(pageText))
+  ) {
+    issues.add(
+      "bot_detection",
+      "The page looks like a bot protection or block page",
+      `title: ${report.page.title}`,
+    );
+  }
+
+  for (const { tail, lines } of logs) {
+    report.logs.push(tail);
+    if (tail.error) {
+      errors[`logs.${tail.name}`] = tail.error;
+    }
+    for (const line of lines) {
+      const rule = LOG_RULES.find(
+        (rule) =>
+          (!rule.logs || rule.logs.includes(tail.name)) &&
+          rule.pattern.test(line),
+      );
+      if (rule) {
+        issues.add(
+          rule.category,
+          `Errors in the ${tail.name} log`,
+          line.length > 300 ? `${line.slice(0, 300)}...` : line,
+        );
+      }
+    }
+  }
+
+  if (!allowExec) {
+    report.connectivity = {
+      skipped:
+        "Running commands in browsers is disabled for this organization, or the organization couldn't be determined",
+    };
+  } else {
+    const pageUrl =
+      report.page && /^https?:\/\//.test(report.page.url)
+        ? report.page.url
+        : undefined;
+    const url = probeUrl ?? pageUrl ?? DEFAULT_PROBE_URL;
+    // Only a probe of the site itself says whether Chrome alone is blocked
+    const probesSite = url !== DEFAULT_PROBE_URL;
+    try {
+      const probe = await probeConnectivity(client, sessionId, url);
+      report.connectivity = probe;
+      if (probe.ok) {
+        // The VM reaches the site while Chrome can't
+        if (probesSite && (errorPage || issues.has("network"))) {
+          issues.add(
+            "bot_detection",
+            "curl reaches the site from the VM but Chrome gets errors",
+            `curl ${url}: HTTP ${probe.http_status}` +
+              (report.session.stealth ? "" : "; stealth is off"),
+          );
+        }
+      } else {
+        // curl exits with 5 or 6 when it can't resolve the proxy or host
+        issues.add(
+          probe.exit_code === 5 || probe.exit_code === 6 ? "dns" : "network",
+          "The VM couldn't fetch the probe URL",
+          `curl ${url}: ${probe.error ?? `exit code ${probe.exit_code}`}`,
+        );
+      }
+    } catch (error) {
+      errors.connectivity = errorMessage(error);
+    }
+  }
+
+  report.issues = issues.list();
+  return { report, screenshot };
+}
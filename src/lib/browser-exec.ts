@@ -0,0 +1,187 @@
+// Running commands inside a Kernel browser's VM through the process API,
+// with a timeout and truncated output so a noisy command can't flood an
+// agent's context
+
+import type { Kernel } from "@onkernel/sdk";
+
+export const DEFAULT_EXEC_TIMEOUT_SECONDS = 30;
+export const MAX_EXEC_TIMEOUT_SECONDS = 300;
+
+// Kept per stream: the first and last halves of the output survive
+const MAX_OUTPUT_BYTES = 32 * 1024;
+
+// How long past its timeout a streamed process gets before it's killed
+const KILL_GRACE_MS = 2000;
+
+export interface ExecCommand {
+  command: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  asRoot?: boolean;
+  timeoutSeconds?: number;
+}
+
+export interface ExecResult {
+  // Null when the process didn't report one, e.g. after being killed
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+  // Bytes dropped from the middle of each stream
+  truncated: { stdout: number; stderr: number };
+}
+
+export type ExecOutputListener = (
+  stream: "stdout" | "stderr",
+  text: string,
+) => void | Promise<void>;
+
+/**
+ * Collect a stream's output, keeping only its head and tail once it passes
+ * the limit
+ */
+function createOutputCollector(limit: number = MAX_OUTPUT_BYTES) {
+  const half = Math.floor(limit / 2);
+  let head = Buffer.alloc(0);
+  let tail = Buffer.alloc(0);
+  let total = 0;
+  const dropped = () => total - head.length - tail.length;
+
+  return {
+    push(chunk: Buffer) {
+      total += chunk.length;
+      const room = half - head.length;
+      if (room > 0) {
+        head = Buffer.concat([head, chunk.subarray(0, room)]);
+        chunk = chunk.subarray(room);
+      }
+      if (chunk.length > 0) {
+        tail = Buffer.concat([tail, chunk]);
+        tail = tail.subarray(Math.max(0, tail.length - half));
+      }
+    },
+    get dropped() {
+      return dropped();
+    },
+    text() {
+      return dropped() > 0
+        ? `${head.toString("utf8")}\n... [${dropped()} bytes truncated] ...\n${tail.toString("utf8")}`
+        : Buffer.concat([head, tail]).toString("utf8");
+    },
+  };
+}
+
+/**
+ * Run a command in a browser session's VM and wait for it to finish
+ * With a listener, output is streamed to it while the command runs;
+ * otherwise the command runs in one request
+ */
+export async function execInBrowser(
+  client: Kernel,
+  sessionId: string,
+  {
+    command,
+    args,
+    cwd,
+    env,
+    asRoot,
+    timeoutSeconds = DEFAULT_EXEC_TIMEOUT_SECONDS,
+  }: ExecCommand,
+  onOutput?: ExecOutputListener,
+): Promise<ExecResult> {
+  const params = {
+    command,
+    args,
+    cwd,
+    env,
+    as_root: asRoot,
+    timeout_sec: timeoutSeconds,
+  };
+  const stdout = createOutputCollector();
+  const stderr = createOutputCollector();
+  const started = Date.now();
+
+  if (!onOutput) {
+    const result = await client.browsers.process.exec(sessionId, params, {
+      timeout: timeoutSeconds * 1000 + KILL_GRACE_MS,
+    });
+    stdout.push(Buffer.from(result.stdout_b64 ?? "", "base64"));
+    stderr.push(Buffer.from(result.stderr_b64 ?? "", "base64"));
+    const durationMs = result.duration_ms ?? Date.now() - started;
+    return {
+      exitCode: result.exit_code ?? null,
+      stdout: stdout.text(),
+      stderr: stderr.text(),
+      durationMs,
+      // The VM ends commands that run out of time
+      timedOut: durationMs >= timeoutSeconds * 1000,
+      truncated: { stdout: stdout.dropped, stderr: stderr.dropped },
+    };
+  }
+
+  const { process_id: processId } = await client.browsers.process.spawn(
+    sessionId,
+    params,
+  );
+  if (!processId) {
+    throw new Error("The browser did not return a process ID");
+  }
+
+  const stream = await client.browsers.process.stdoutStream(processId, {
+    id: sessionId,
+  });
+  let timedOut = false;
+  const timer = setTimeout(
+    () => {
+      timedOut = true;
+      stream.controller.abort();
+      client.browsers.process
+        .kill(processId, { id: sessionId, signal: "KILL" })
+        .catch((error) =>
+          console.warn(`Failed to kill timed out process ${processId}:`, error),
+        );
+    },
+    timeoutSeconds * 1000 + KILL_GRACE_MS,
+  );
+
+  let exitCode: number | null = null;
+  let exited = false;
+  try {
+    for await (const event of stream) {
+      if (event.event === "exit") {
+        exitCode = event.exit_code ?? null;
+        exited = true;
+        break;
+      }
+      if (!event.data_b64) continue;
+      const chunk = Buffer.from(event.data_b64, "base64");
+      const source = event.stream === "stderr" ? "stderr" : "stdout";
+      (source === "stderr" ? stderr : stdout).push(chunk);
+      await onOutput(source, chunk.toString("utf8"));
+    }
+  } catch (error) {
+    // Aborting the stream on timeout ends the loop with an error
+    if (!timedOut) throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  // The stream can end without an exit event
+  if (!exited && !timedOut) {
+    const status = await client.browsers.process
+      .status(processId, { id: sessionId })
+      .catch(() => null);
+    exitCode = status?.exit_code ?? null;
+  }
+
+  return {
+    exitCode,
+    stdout: stdout.text(),
+    stderr: stderr.text(),
+    durationMs: Date.now() - started,
+    timedOut,
+    truncated: { stdout: stdout.dropped, stderr: stderr.dropped },
+  };
+}
@@ -0,0 +1,259 @@
+// Files on a Kernel browser's VM, read and written through the browser
+// filesystem API. Reads take byte ranges and everything is capped in size, so
+// large logs and downloads don't flood an agent's context
+
+import type { Kernel } from "@onkernel/sdk";
+
+// Where pages save their downloads; relative paths are resolved against it
+export const BROWSER_DOWNLOADS_DIR = "/tmp/downloads";
+
+export const BROWSER_FILE_URI_SCHEME = "browser-files://";
+
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+
+export type BrowserFileEncoding = "text" | "base64";
+
+export interface BrowserFileRange {
+  path: string;
+  // Size of the whole file
+  size: number;
+  // Where the returned bytes start
+  offset: number;
+  content: Buffer;
+  // Offset to continue reading from, or null at the end of the file
+  nextOffset: number | null;
+}
+
+// Extensions served as text resources; anything else is a blob
+const MIME_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+  html: "text/html",
+  xml: "application/xml",
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  zip: "application/zip",
+};
+
+/**
+ * Largest number of bytes read, written or downloaded at once, from
+ * BROWSER_FS_MAX_BYTES or the 1 MB default
+ */
+export function getBrowserFileLimit(): number {
+  const value = Number(process.env.BROWSER_FS_MAX_BYTES);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_BYTES;
+}
+
+/**
+ * Resolve a path on the VM; relative paths are taken from the downloads
+ * directory
+ */
+export function resolveBrowserPath(path: string): string {
+  return path.startsWith("/")
+    ? path
+    : `${BROWSER_DOWNLOADS_DIR}/${path.replace(/^\.\//, "")}`;
+}
+
+export function browserFileUri(sessionId: string, path: string): string {
+  const encoded = resolveBrowserPath(path)
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/");
+  return `${BROWSER_FILE_URI_SCHEME}${sessionId}${encoded}`;
+}
+
+/**
+ * Split a `browser-files://<session_id>/<path>` URI
+ * A URI without a path refers to the session's downloads directory
+ */
+export function parseBrowserFileUri(
+  uri: string,
+): { sessionId: string; path: string } | null {
+  if (!uri.startsWith(BROWSER_FILE_URI_SCHEME)) {
+    return null;
+  }
+  const rest = uri.slice(BROWSER_FILE_URI_SCHEME.length);
+  const slash = rest.indexOf("/");
+  const sessionId = slash === -1 ? rest : rest.slice(0, slash);
+  if (!sessionId) {
+    return null;
+  }
+  const path = slash === -1 ? "" : decodeURIComponent(rest.slice(slash));
+  return {
+    sessionId,
+    path: path && path !== "/" ? path : BROWSER_DOWNLOADS_DIR,
+  };
+}
+
+export function browserFileMimeType(path: string): string {
+  const extension = path.split("/").pop()?.split(".").pop()?.toLowerCase();
+  return (extension && MIME_TYPES[extension]) ?? "application/octet-stream";
+}
+
+const isTextMimeType = (mimeType: string) =>
+  mimeType.startsWith("text/") ||
+  mimeType === "application/json" ||
+  mimeType === "application/xml";
+
+/**
+ * Take bytes [start, end) from a file response
+ * Servers that honour the Range header answer 206 with just those bytes;
+ * otherwise the body is read up to `end` and the rest is discarded
+ */
+async function readByteRange(
+  response: Response,
+  start: number,
+  end: number,
+): Promise<Buffer> {
+  if (response.status === 206) {
+    return Buffer.from(await response.arrayBuffer()).subarray(0, end - start);
+  }
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return Buffer.alloc(0);
+  }
+  const chunks: Buffer[] = [];
+  let position = 0;
+  while (position < end) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunkStart = position;
+    position += value.length;
+    if (position <= start) continue;
+    chunks.push(
+      Buffer.from(
+        value.subarray(
+          Math.max(0, start - chunkStart),
+          Math.min(value.length, end - chunkStart),
+        ),
+      ),
+    );
+  }
+  await reader.cancel().catch(() => undefined);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read part of a file on the VM
+ * A negative offset counts back from the end of the file, so -65536 reads the
+ * last 64 KB of a log; at most the size limit is read at a time
+ */
+export async function readBrowserFile(
+  client: Kernel,
+  sessionId: string,
+  path: string,
+  { offset = 0, length }: { offset?: number; length?: number } = {},
+): Promise<BrowserFileRange> {
+  const resolved = resolveBrowserPath(path);
+  const info = await client.browsers.fs.fileInfo(sessionId, {
+    path: resolved,
+  });
+  if (info.is_dir) {
+    throw new Error(`${resolved} is a directory`);
+  }
+
+  const size = info.size_bytes;
+  const start =
+    offset < 0 ? Math.max(0, size + offset) : Math.min(offset, size);
+  const end = Math.min(
+    size,
+    start + Math.min(length ?? Infinity, getBrowserFileLimit()),
+  );
+  let content = Buffer.alloc(0);
+  if (end > start) {
+    const response = await client.browsers.fs.readFile(
+      sessionId,
+      { path: resolved },
+      { headers: { Range: `bytes=${start}-${end - 1}` } },
+    );
+    content = await readByteRange(response, start, end);
+  }
+
+  const reached = start + content.length;
+  return {
+    path: resolved,
+    size,
+    offset: start,
+    content,
+    nextOffset: reached < size ? reached : null,
+  };
+}
+
+/**
+ * Write a file on the VM from text or base64 content
+ * Returns the number of bytes written
+ */
+export async function writeBrowserFile(
+  client: Kernel,
+  sessionId: string,
+  path: string,
+  content: string,
+  encoding: BrowserFileEncoding = "text",
+  mode?: string,
+): Promise<number> {
+  const bytes = Buffer.from(content, encoding === "base64" ? "base64" : "utf8");
+  const limit = getBrowserFileLimit();
+  if (bytes.length > limit) {
+    throw new Error(
+      `Content is ${bytes.length} bytes, over the ${limit} byte limit`,
+    );
+  }
+  await client.browsers.fs.writeFile(sessionId, bytes, {
+    path: resolveBrowserPath(path),
+    ...(mode && { mode }),
+  });
+  return bytes.length;
+}
+
+/**
+ * Fetch a whole file from the VM as MCP resource contents, text for text
+ * formats and base64 otherwise
+ * Files over the size limit are rejected rather than truncated
+ */
+export async function downloadBrowserFile(
+  client: Kernel,
+  sessionId: string,
+  path: string,
+): Promise<
+  { uri: string; mimeType: string } & ({ text: string } | { blob: string })
+> {
+  const file = await readBrowserFile(client, sessionId, path);
+  if (file.nextOffset !== null) {
+    throw new Error(
+      `${file.path} is ${file.size} bytes, over the ${getBrowserFileLimit()} byte download limit; read it in ranges instead`,
+    );
+  }
+  const uri = browserFileUri(sessionId, file.path);
+  const mimeType = browserFileMimeType(file.path);
+  return isTextMimeType(mimeType)
+    ? { uri, mimeType, text: file.content.toString("utf8") }
+    : { uri, mimeType, blob: file.content.toString("base64") };
+}
+
+/**
+ * List a directory on the VM, giving each file a resource URI
+ */
+export async function listBrowserFiles(
+  client: Kernel,
+  sessionId: string,
+  path: string = BROWSER_DOWNLOADS_DIR,
+) {
+  const entries = await client.browsers.fs.listFiles(sessionId, {
+    path: resolveBrowserPath(path),
+  });
+  return entries.map((entry) => ({
+    name: entry.name,
+    path: entry.path,
+    is_dir: entry.is_dir,
+    size_bytes: entry.size_bytes,
+    mod_time: entry.mod_time,
+    ...(!entry.is_dir && { uri: browserFileUri(sessionId, entry.path) }),
+  }));
+}
@@ -0,0 +1,171 @@
+// Replay recordings of browser sessions, addressed as
+// `replays://<session_id>/<replay_id>` resources whose contents are the
+// replay's metadata and, once it has finished, its video
+
+import type { Kernel } from "@onkernel/sdk";
+
+export const REPLAY_URI_SCHEME = "replays://";
+
+const DEFAULT_MAX_VIDEO_BYTES = 20 * 1024 * 1024;
+
+export interface ReplayInfo {
+  replay_id: string;
+  session_id: string;
+  // A replay is recording until it's stopped or reaches its max duration
+  status: "recording" | "finished";
+  started_at: string | null;
+  finished_at: string | null;
+  replay_view_url: string | null;
+  uri: string;
+}
+
+/**
+ * Largest replay video embedded in a resource, from REPLAY_MAX_BYTES or the
+ * 20 MB default
+ */
+export function getReplayVideoLimit(): number {
+  const value = Number(process.env.REPLAY_MAX_BYTES);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_VIDEO_BYTES;
+}
+
+export function replayUri(sessionId: string, replayId: string): string {
+  return `${REPLAY_URI_SCHEME}${sessionId}/${encodeURIComponent(replayId)}`;
+}
+
+/**
+ * Split a `replays://<session_id>[/<replay_id>]` URI
+ * A URI without a replay ID refers to all of the session's replays
+ */
+export function parseReplayUri(
+  uri: string,
+): { sessionId: string; replayId: string | null } | null {
+  if (!uri.startsWith(REPLAY_URI_SCHEME)) {
+    return null;
+  }
+  const [sessionId, replayId, ...rest] = uri
+    .slice(REPLAY_URI_SCHEME.length)
+    .split("/");
+  if (!sessionId || rest.length > 0) {
+    return null;
+  }
+  return {
+    sessionId,
+    replayId: replayId ? decodeURIComponent(replayId) : null,
+  };
+}
+
+function toReplayInfo(
+  sessionId: string,
+  replay: {
+    replay_id: string;
+    started_at?: string | null;
+    finished_at?: string | null;
+    replay_view_url?: string;
+  },
+): ReplayInfo {
+  return {
+    replay_id: replay.replay_id,
+    session_id: sessionId,
+    status: replay.finished_at ? "finished" : "recording",
+    started_at: replay.started_at ?? null,
+    finished_at: replay.finished_at ?? null,
+    replay_view_url: replay.replay_view_url ?? null,
+    uri: replayUri(sessionId, replay.replay_id),
+  };
+}
+
+export async function listReplays(
+  client: Kernel,
+  sessionId: string,
+): Promise<ReplayInfo[]> {
+  const replays = await client.browsers.replays.list(sessionId);
+  return replays.map((replay) => toReplayInfo(sessionId, replay));
+}
+
+export async function getReplay(
+  client: Kernel,
+  sessionId: string,
+  replayId: string,
+): Promise<ReplayInfo> {
+  const replay = (await listReplays(client, sessionId)).find(
+    (r) => r.replay_id === replayId,
+  );
+  if (!replay) {
+    throw new Error(
+      `Replay "${replayId}" not found for browser session "${sessionId}"`,
+    );
+  }
+  return replay;
+}
+
+export async function startReplay(
+  client: Kernel,
+  sessionId: string,
+  options: { framerate?: number; maxDurationSeconds?: number } = {},
+): Promise<ReplayInfo> {
+  const replay = await client.browsers.replays.start(sessionId, {
+    framerate: options.framerate,
+    max_duration_in_seconds: options.maxDurationSeconds,
+  });
+  return toReplayInfo(sessionId, replay);
+}
+
+/**
+ * Stop a replay and return its metadata as the API reports it afterwards
+ * The listing can lag behind the stop, so the replay may still show as
+ * recording for a moment
+ */
+export async function stopReplay(
+  client: Kernel,
+  sessionId: string,
+  replayId: string,
+): Promise<ReplayInfo> {
+  await client.browsers.replays.stop(replayId, { id: sessionId });
+  return await getReplay(client, sessionId, replayId);
+}
+
+/**
+ * Download a finished replay's video as MCP resource contents
+ * Videos over the size limit are rejected rather than truncated; they can
+ * still be watched at the replay's view URL
+ */
+export async function downloadReplayVideo(
+  client: Kernel,
+  sessionId: string,
+  replayId: string,
+): Promise<{ uri: string; mimeType: string; blob: string }> {
+  const limit = getReplayVideoLimit();
+  const tooLarge = (size?: number) =>
+    new Error(
+      `The video for replay "${replayId}" is ${size !== undefined ? `${size} bytes, ` : ""}over the ${limit} byte limit; watch it at the replay's view URL instead`,
+    );
+
+  const response = await client.browsers.replays.download(replayId, {
+    id: sessionId,
+  });
+  const declared = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > limit) {
+    await response.body?.cancel().catch(() => undefined);
+    throw tooLarge(declared);
+  }
+
+  const reader = response.body?.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel().catch(() => undefined);
+      throw tooLarge();
+    }
+    chunks.push(Buffer.from(value));
+  }
+
+  return {
+    uri: `${replayUri(sessionId, replayId)}#video`,
+    mimeType: response.headers.get("content-type") ?? "video/mp4",
+    blob: Buffer.concat(chunks).toString("base64"),
+  };
+}
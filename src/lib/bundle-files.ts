@@ -0,0 +1,293 @@
+// Which supplied files end up in an app bundle: ignore rules from
+// .gitignore/.kernelignore and built-in defaults, base64 binary assets, and
+// size limits
+
+// Ignored unless an ignore file re-includes them
+const DEFAULT_IGNORE_PATTERNS = [
+  ".git/",
+  ".DS_Store",
+  "node_modules/",
+  ".venv/",
+  "venv/",
+  "__pycache__/",
+  "*.py[cod]",
+  ".pytest_cache/",
+  ".mypy_cache/",
+  ".ruff_cache/",
+  ".next/",
+  ".turbo/",
+];
+
+const IGNORE_FILE_NAMES = [".gitignore", ".kernelignore"];
+
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_TOTAL_BYTES = 50 * 1024 * 1024;
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export interface BundleLimits {
+  // Largest single file, in bytes
+  maxFileBytes?: number;
+  // Largest total size of all files, in bytes
+  maxTotalBytes?: number;
+}
+
+interface IgnoreRule {
+  // Directory of the ignore file the rule came from, "" for the bundle root
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export interface BundleFiles {
+  // Text files the resolver pipeline reads
+  files: Record<string, string>;
+  // Decoded binary assets, shipped as-is
+  binaryFiles: Record<string, Buffer>;
+  // Supplied paths left out by ignore rules
+  ignored: string[];
+}
+
+/**
+ * Resolve size limits, falling back to BUNDLE_MAX_FILE_BYTES and
+ * BUNDLE_MAX_TOTAL_BYTES and then the defaults
+ */
+export function getBundleLimits(
+  limits: BundleLimits = {},
+): Required<BundleLimits> {
+  const fromEnv = (name: string) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+  return {
+    maxFileBytes:
+      limits.maxFileBytes ??
+      fromEnv("BUNDLE_MAX_FILE_BYTES") ??
+      DEFAULT_MAX_FILE_BYTES,
+    maxTotalBytes:
+      limits.maxTotalBytes ??
+      fromEnv("BUNDLE_MAX_TOTAL_BYTES") ??
+      DEFAULT_MAX_TOTAL_BYTES,
+  };
+}
+
+/**
+ * Translate a gitignore glob into a regular expression source
+ */
+function globToRegex(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches any number of directories, a trailing "**" anything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else if (ch === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+        source += `[${body.replace(/^!/, "^")}]`;
+        i = end;
+      }
+    } else if (ch === "\\" && i + 1 < glob.length) {
+      source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      i += 1;
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+/**
+ * Parse the lines of an ignore file using gitignore syntax
+ */
+function parseIgnoreRules(text: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    const negated = line.startsWith("!");
+    if (negated) line = line.slice(1);
+    if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.slice(1);
+
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.replace(/\/+$/, "");
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the file's directory
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    rules.push({
+      base,
+      regex: new RegExp(`^${anchored ? "" : "(?:.*/)?"}${globToRegex(line)}$`),
+      negated,
+      directoryOnly,
+    });
+  }
+  return rules;
+}
+
+/**
+ * Whether a path is ignored; the last matching rule wins, and a file inside
+ * an ignored directory stays ignored, as in git
+ */
+function isIgnored(filePath: string, rules: IgnoreRule[]): boolean {
+  const segments = filePath.split("/");
+  const matches = (candidate: string, isDirectory: boolean) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.base && !candidate.startsWith(`${rule.base}/`)) continue;
+      const relative = rule.base
+        ? candidate.slice(rule.base.length + 1)
+        : candidate;
+      if (rule.regex.test(relative)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+
+  for (let depth = 1; depth < segments.length; depth++) {
+    if (matches(segments.slice(0, depth).join("/"), true)) {
+      return true;
+    }
+  }
+  return matches(filePath, false);
+}
+
+/**
+ * Decode base64 binary assets, rejecting invalid encodings
+ */
+function decodeBinaryFiles(
+  binaryFiles: Record<string, string>,
+  files: Record<string, string>,
+): Record<string, Buffer> {
+  const decoded: Record<string, Buffer> = {};
+  for (const [filePath, encoded] of Object.entries(binaryFiles)) {
+    if (filePath in files) {
+      throw new Error(
+        `"${filePath}" is in both files and binary_files; supply it once`,
+      );
+    }
+    const compact = encoded.replace(/\s+/g, "");
+    if (compact.length % 4 === 1 || !BASE64.test(compact)) {
+      throw new Error(`binary_files["${filePath}"] is not valid base64`);
+    }
+    decoded[filePath] = Buffer.from(compact, "base64");
+  }
+  return decoded;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : bytes >= 1024
+      ? `${(bytes / 1024).toFixed(1)} KB`
+      : `${bytes} B`;
+
+/**
+ * Select the files to bundle: apply built-in ignore defaults and the
+ * .gitignore/.kernelignore files in the bundle (each relative to its own
+ * directory, with .kernelignore applied last), decode binary assets and
+ * enforce size limits
+ * Throws listing every file over the per-file limit, or when the total is over
+ * the bundle limit
+ */
+export function prepareBundleFiles({
+  files,
+  binaryFiles = {},
+  limits,
+}: {
+  files: Record<string, string>;
+  binaryFiles?: Record<string, string>;
+  limits?: BundleLimits;
+}): BundleFiles {
+  const decoded = decodeBinaryFiles(binaryFiles, files);
+
+  // Shallower ignore files first, so deeper ones can override them
+  const ignoreFiles = Object.keys(files)
+    .filter((filePath) =>
+      IGNORE_FILE_NAMES.includes(filePath.split("/").pop() || ""),
+    )
+    .sort((a, b) => {
+      const depth = (p: string) => p.split("/").length;
+      const name = (p: string) =>
+        IGNORE_FILE_NAMES.indexOf(p.split("/").pop() || "");
+      return depth(a) - depth(b) || name(a) - name(b);
+    });
+  const rules = [
+    ...parseIgnoreRules(DEFAULT_IGNORE_PATTERNS.join("\n"), ""),
+    ...ignoreFiles.flatMap((filePath) =>
+      parseIgnoreRules(
+        files[filePath],
+        filePath.split("/").slice(0, -1).join("/"),
+      ),
+    ),
+  ];
+
+  const ignored: string[] = [];
+  const keep = <T>(entries: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(
+      Object.entries(entries).filter(([filePath]) => {
+        if (isIgnored(filePath.replace(/^\.\//, ""), rules)) {
+          ignored.push(filePath);
+          return false;
+        }
+        return true;
+      }),
+    );
+  const keptFiles = keep(files);
+  const keptBinaryFiles = keep(decoded);
+
+  const { maxFileBytes, maxTotalBytes } = getBundleLimits(limits);
+  const sizes = [
+    ...Object.entries(keptFiles).map(
+      ([filePath, content]) => [filePath, Buffer.byteLength(content)] as const,
+    ),
+    ...Object.entries(keptBinaryFiles).map(
+      ([filePath, content]) => [filePath, content.length] as const,
+    ),
+  ];
+  const oversized = sizes.filter(([, size]) => size > maxFileBytes);
+  if (oversized.length > 0) {
+    throw new Error(
+      `Files exceed the ${formatBytes(maxFileBytes)} per-file limit: ${oversized
+        .map(([filePath, size]) => `${filePath} (${formatBytes(size)})`)
+        .join(", ")}. Remove them or add them to .kernelignore.`,
+    );
+  }
+  const total = sizes.reduce((sum, [, size]) => sum + size, 0);
+  if (total > maxTotalBytes) {
+    const largest = [...sizes]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([filePath, size]) => `${filePath} (${formatBytes(size)})`);
+    throw new Error(
+      `Bundle is ${formatBytes(total)}, over the ${formatBytes(maxTotalBytes)} limit. Largest files: ${largest.join(", ")}.`,
+    );
+  }
+
+  return {
+    files: keptFiles,
+    binaryFiles: keptBinaryFiles,
+    ignored: ignored.sort(),
+  };
+}
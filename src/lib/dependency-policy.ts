@@ -0,0 +1,241 @@
+// Policy checks on an app's final dependencies before it's deployed: a local
+// denylist and advisory file, and optionally license metadata from the
+// package registry
+
+import { readFile } from "fs/promises";
+import { LanguageResolver } from "./resolvers/types";
+import { mapWithConcurrency } from "./resolvers/registry";
+
+export type PolicyEcosystem = "npm" | "pypi";
+
+// "block" stops a deploy with findings, "warn" only reports them
+export type PolicyEnforcement = "block" | "warn" | "off";
+
+const POLICY_ENFORCEMENTS: PolicyEnforcement[] = ["block", "warn", "off"];
+
+// Contents of the JSON file named by DEPENDENCY_POLICY_FILE
+export interface DependencyPolicyFile {
+  // Packages that may not be deployed; every version unless `versions` is set
+  denylist?: {
+    ecosystem: PolicyEcosystem;
+    package: string;
+    versions?: string;
+    reason?: string;
+  }[];
+  // Known-vulnerable versions of packages
+  advisories?: {
+    id: string;
+    ecosystem: PolicyEcosystem;
+    package: string;
+    versions: string;
+    severity?: string;
+    summary?: string;
+  }[];
+  // SPDX license identifiers that may not be deployed
+  deniedLicenses?: string[];
+}
+
+// Per-org policy settings
+export interface DependencyPolicySettings {
+  // Defaults to DEPENDENCY_POLICY_ENFORCEMENT, or "warn"
+  enforcement?: PolicyEnforcement;
+  // Look up each dependency's license on the registry and flag denied ones
+  checkLicenses?: boolean;
+  // Licenses to deny in addition to the policy file's
+  deniedLicenses?: string[];
+}
+
+export interface PolicyFinding {
+  kind: "denylist" | "advisory" | "license";
+  package: string;
+  // Version that was checked, or null when it couldn't be determined
+  version: string | null;
+  message: string;
+  // Advisory ID and severity
+  id?: string;
+  severity?: string;
+  // License that isn't allowed
+  license?: string;
+}
+
+export interface PolicyReport {
+  enforcement: PolicyEnforcement;
+  findings: PolicyFinding[];
+  // Whether the findings stop the deploy
+  blocked: boolean;
+}
+
+/**
+ * Load the policy file named by DEPENDENCY_POLICY_FILE
+ * No file configured means an empty policy; a file that can't be read or
+ * parsed throws, since the policy couldn't be enforced
+ */
+export async function loadDependencyPolicyFile(): Promise<DependencyPolicyFile> {
+  const path = process.env.DEPENDENCY_POLICY_FILE;
+  if (!path) {
+    return {};
+  }
+  try {
+    const policy = JSON.parse(await readFile(path, "utf8"));
+    if (typeof policy !== "object" || policy === null) {
+      throw new Error("expected a JSON object");
+    }
+    return policy as DependencyPolicyFile;
+  } catch (error) {
+    throw new Error(
+      `Failed to load dependency policy from ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Server-wide enforcement from DEPENDENCY_POLICY_ENFORCEMENT, or "warn"
+ * Applies to orgs that don't set their own, including callers whose org
+ * can't be resolved (API keys, or org settings that couldn't be loaded), so
+ * "block" keeps those from bypassing the policy
+ * An unrecognized value throws, since the policy couldn't be enforced
+ */
+export function getDefaultPolicyEnforcement(): PolicyEnforcement {
+  const value = process.env.DEPENDENCY_POLICY_ENFORCEMENT;
+  if (!value) {
+    return "warn";
+  }
+  if (!POLICY_ENFORCEMENTS.includes(value as PolicyEnforcement)) {
+    throw new Error(
+      `Invalid DEPENDENCY_POLICY_ENFORCEMENT "${value}"; expected ${POLICY_ENFORCEMENTS.join(", ")}`,
+    );
+  }
+  return value as PolicyEnforcement;
+}
+
+/**
+ * Strip SPDX version suffixes so "GPL-3.0" also denies "GPL-3.0-only" and
+ * "GPL-3.0-or-later"
+ */
+const licenseKey = (license: string) =>
+  license
+    .trim()
+    .toLowerCase()
+    .replace(/(-only|-or-later|\+)$/, "");
+
+/**
+ * Whether an SPDX expression only allows denied licenses
+ * "MIT OR GPL-3.0" can be used under MIT, while "MIT AND GPL-3.0" can't
+ */
+function isLicenseDenied(expression: string, denied: Set<string>): boolean {
+  return expression
+    .replace(/[()]/g, " ")
+    .split(/\s+OR\s+/i)
+    .every((alternative) =>
+      alternative
+        .split(/\s+(?:AND|WITH)\s+/i)
+        .some((license) => denied.has(licenseKey(license))),
+    );
+}
+
+/**
+ * Check final dependencies against the policy file and, when the org enables
+ * it, the licenses the registry reports
+ * `versions` maps packages to the exact versions they resolve to; packages
+ * without one still match denylist entries and advisories by name
+ */
+export async function evaluateDependencyPolicy(
+  resolver: LanguageResolver,
+  ecosystem: PolicyEcosystem,
+  dependencies: Record<string, string>,
+  versions: Record<string, string>,
+  settings: DependencyPolicySettings = {},
+  concurrency: number = 8,
+): Promise<PolicyReport> {
+  const enforcement = settings.enforcement ?? getDefaultPolicyEnforcement();
+  if (enforcement === "off") {
+    return { enforcement, findings: [], blocked: false };
+  }
+
+  const policy = await loadDependencyPolicyFile();
+  const scheme = resolver.versionScheme;
+  const packages = Object.keys(dependencies).map((pkg) => ({
+    name: pkg,
+    key: scheme.normalizeName(pkg),
+    version: versions[pkg] ?? null,
+  }));
+  const findings: PolicyFinding[] = [];
+
+  // Whether a resolved version falls in a range; an unknown version might,
+  // so it's flagged
+  const affects = (version: string | null, range: string | undefined) => {
+    if (!range || version === null) return true;
+    if (scheme.classify(range) !== "checkable") {
+      console.warn(`Ignoring unsupported version range "${range}" in policy`);
+      return false;
+    }
+    return scheme.maxSatisfying([version], [range]) !== null;
+  };
+  const describe = (pkg: { name: string; version: string | null }) =>
+    pkg.version ? `${pkg.name}@${pkg.version}` : pkg.name;
+
+  for (const entry of policy.denylist ?? []) {
+    if (entry.ecosystem !== ecosystem) continue;
+    const pkg = packages.find(
+      (p) => p.key === scheme.normalizeName(entry.package),
+    );
+    if (!pkg || !affects(pkg.version, entry.versions)) continue;
+    findings.push({
+      kind: "denylist",
+      package: pkg.name,
+      version: pkg.version,
+      message:
+        `${describe(pkg)} is denylisted` +
+        (entry.versions ? ` (versions ${entry.versions})` : "") +
+        (entry.reason ? `: ${entry.reason}` : ""),
+    });
+  }
+
+  for (const advisory of policy.advisories ?? []) {
+    if (advisory.ecosystem !== ecosystem) continue;
+    const pkg = packages.find(
+      (p) => p.key === scheme.normalizeName(advisory.package),
+    );
+    if (!pkg || !affects(pkg.version, advisory.versions)) continue;
+    findings.push({
+      kind: "advisory",
+      package: pkg.name,
+      version: pkg.version,
+      id: advisory.id,
+      ...(advisory.severity && { severity: advisory.severity }),
+      message:
+        `${describe(pkg)} is affected by ${advisory.id} (versions ${advisory.versions})` +
+        (advisory.summary ? `: ${advisory.summary}` : "") +
+        (pkg.version ? "" : "; the resolved version is unknown"),
+    });
+  }
+
+  const deniedLicenses = new Set(
+    [...(policy.deniedLicenses ?? []), ...(settings.deniedLicenses ?? [])].map(
+      licenseKey,
+    ),
+  );
+  if (settings.checkLicenses && deniedLicenses.size > 0) {
+    const licenses = await mapWithConcurrency(packages, concurrency, (pkg) =>
+      resolver.lookupPackageLicense(pkg.name, pkg.version),
+    );
+    packages.forEach((pkg, index) => {
+      const license = licenses[index];
+      if (license && isLicenseDenied(license, deniedLicenses)) {
+        findings.push({
+          kind: "license",
+          package: pkg.name,
+          version: pkg.version,
+          license,
+          message: `${describe(pkg)} is licensed under ${license}, which is not allowed`,
+        });
+      }
+    });
+  }
+
+  return {
+    enforcement,
+    findings,
+    blocked: enforcement === "block" && findings.length > 0,
+  };
+}
@@ -5,17 +5,44 @@ import {
   SupportedLanguage,
   detectLanguage,
   DeploymentConfig,
+  ManifestUpdate,
+  ResolverOptions,
+  RegistryConfig,
+  DeclaredDependency,
+  MergeReport,
+  VersionConstraint,
+  AppDefinitions,
+  AppManifest,
+  AppActionInfo,
 } from "./resolvers/types";
 import { TypeScriptResolver } from "./resolvers/typescript";
+import { JavaScriptResolver } from "./resolvers/javascript";
 import { PythonResolver } from "./resolvers/python";
+import { createBundleContext } from "./resolvers/local-modules";
+import {
+  detectEntrypoint,
+  EntrypointDetectionError,
+  EntrypointCandidate,
+} from "./resolvers/entrypoint";
+import { getRegistrySettings, mapWithConcurrency } from "./resolvers/registry";
+import {
+  DependencyPolicySettings,
+  PolicyReport,
+  evaluateDependencyPolicy,
+} from "./dependency-policy";
 
 // Factory function to get the appropriate resolver for a language
-function getResolver(language: SupportedLanguage): LanguageResolver {
+function getResolver(
+  language: SupportedLanguage,
+  options: ResolverOptions = {},
+): LanguageResolver {
   switch (language) {
     case "typescript":
-      return new TypeScriptResolver();
+      return new TypeScriptResolver(options);
+    case "javascript":
+      return new JavaScriptResolver(options);
     case "python":
-      return new PythonResolver();
+      return new PythonResolver(options);
     default:
       throw new Error(`Unsupported language: ${language}`);
   }
@@ -24,133 +51,601 @@ function getResolver(language: SupportedLanguage): LanguageResolver {
 /**
  * Resolve dependencies across multiple source files
  * Aggregates all imports and deduplicates packages across all files
+ * Imports that resolve to other files in the map are treated as local
  */
 export async function resolveDependencies(
   files: Record<string, string>,
   providedDependencies: Record<string, string> = {},
+  options: ResolverOptions = {},
 ): Promise<DependencyInfo> {
   const allDiscoveredPackages = new Set<string>();
+  const allUnresolved = new Set<string>();
+  const allOptional = new Set<string>();
+  const allLocal = new Set<string>();
   const allDependencies: Record<string, string> = {};
+  const allDevDependencies: Record<string, string> = {};
+  const context = createBundleContext(files);
 
   // Process each file and collect dependencies
   for (const [filename, code] of Object.entries(files)) {
     try {
       const language = detectLanguage(filename);
-      const resolver = getResolver(language);
+      const resolver = getResolver(language, options);
 
-      const { discoveredPackages, dependencies } =
-        await resolver.resolveDependencies(code, providedDependencies);
+      const {
+        discoveredPackages,
+        dependencies,
+        devDependencies,
+        unresolved,
+        optionalPackages,
+        localModules,
+      } = await resolver.resolveDependencies(
+        code,
+        providedDependencies,
+        filename,
+        context,
+      );
 
       // Aggregate results
       discoveredPackages.forEach((pkg) => allDiscoveredPackages.add(pkg));
+      unresolved?.forEach((name) => allUnresolved.add(name));
+      optionalPackages?.forEach((pkg) => allOptional.add(pkg));
+      localModules?.forEach((name) => allLocal.add(name));
       Object.assign(allDependencies, dependencies);
+      Object.assign(allDevDependencies, devDependencies);
     } catch (error) {
       console.warn(`Skipping dependency resolution for ${filename}:`, error);
     }
   }
 
+  // A package needed at runtime by any file is not a devDependency
+  Object.keys(allDependencies).forEach((pkg) => delete allDevDependencies[pkg]);
+
   return {
     discoveredPackages: Array.from(allDiscoveredPackages),
     dependencies: allDependencies,
+    devDependencies: allDevDependencies,
+    unresolved: Array.from(allUnresolved),
+    // Optional in every file that imports them
+    optionalPackages: Array.from(allOptional).filter(
+      (pkg) => !(pkg in allDependencies) && !allDiscoveredPackages.has(pkg),
+    ),
+    localModules: Array.from(allLocal),
   };
 }
 
 /**
- * Detect the entrypoint file from a collection of files
- * Uses common naming conventions to find the main entry point
+ * Generate project configuration files based on detected language
+ * The project is named after the entrypoint unless a name is given
  */
-export function detectEntrypoint(
+export function generateProjectFiles(
+  entrypointPath: string,
+  dependencies: Record<string, string>,
+  devDependencies: Record<string, string> = {},
+  options: ResolverOptions = {},
+  files: Record<string, string> = {},
+  projectName?: string,
+): ProjectFiles {
+  const language = detectLanguage(entrypointPath);
+  const resolver = getResolver(language, options);
+
+  // Anything in the final runtime dependencies doesn't belong in devDependencies
+  const finalDevDependencies = Object.fromEntries(
+    Object.entries(devDependencies).filter(([pkg]) => !(pkg in dependencies)),
+  );
+
+  return resolver.generateProjectFiles(
+    projectName ?? entrypointPath,
+    entrypointPath,
+    dependencies,
+    finalDevDependencies,
+    createBundleContext(files),
+  );
+}
+
+/**
+ * Read dependencies declared by manifests already present in the files
+ */
+export function readDeclaredDependencies(
+  entrypointPath: string,
   files: Record<string, string>,
-  explicitEntrypoint?: string,
-): string {
-  if (explicitEntrypoint) {
-    if (!(explicitEntrypoint in files)) {
-      throw new Error(
-        `Specified entrypoint "${explicitEntrypoint}" not found in files`,
-      );
-    }
-    return explicitEntrypoint;
+): Record<string, string> {
+  const language = detectLanguage(entrypointPath);
+  const resolver = getResolver(language);
+  return resolver.readDeclaredDependencies(files);
+}
+
+export interface ProjectFilesResult {
+  // Files to add to or replace in the bundle
+  files: ProjectFiles;
+  // Files generated from scratch
+  generated: string[];
+  // User-supplied manifests that had dependencies added
+  updated: ManifestUpdate[];
+  // Registry credentials the install reads from the deployment's environment
+  env: Record<string, string>;
+}
+
+/**
+ * Produce project configuration files for a bundle
+ * Dependencies are merged into manifests the user supplied; manifests are only
+ * generated from scratch when none exist, and other generated files (such as
+ * registry config) never replace user files
+ */
+export function syncProjectFiles(
+  entrypointPath: string,
+  dependencies: Record<string, string>,
+  devDependencies: Record<string, string> = {},
+  files: Record<string, string> = {},
+  options: ResolverOptions = {},
+): ProjectFilesResult {
+  const language = detectLanguage(entrypointPath);
+  const resolver = getResolver(language, options);
+  const generatedFiles = generateProjectFiles(
+    entrypointPath,
+    dependencies,
+    devDependencies,
+    options,
+    files,
+  );
+
+  const merged = resolver.mergeIntoManifests(
+    files,
+    dependencies,
+    devDependencies,
+  );
+  if (!merged) {
+    const missing = Object.fromEntries(
+      Object.entries(generatedFiles).filter(([path]) => !(path in files)),
+    );
+    return {
+      files: missing,
+      generated: Object.keys(missing),
+      updated: [],
+      env: resolver.registryEnvironment(),
+    };
   }
 
-  const fileKeys = Object.keys(files);
-  if (fileKeys.length === 0) {
-    throw new Error("No files provided");
+  // Keep only generated files that aren't manifests the user chose not to ship
+  const manifestNames = ["package.json", "pyproject.toml", "requirements.txt"];
+  const extras = Object.fromEntries(
+    Object.entries(generatedFiles).filter(
+      ([path]) => !(path in files) && !manifestNames.includes(path),
+    ),
+  );
+  return {
+    files: { ...extras, ...merged.files },
+    generated: Object.keys(extras),
+    updated: merged.updated,
+    env: resolver.registryEnvironment(),
+  };
+}
+
+/**
+ * Rewrite `npm:`/`jsr:` and version-pinned import specifiers in TypeScript and
+ * JavaScript files to plain package imports that run under bun
+ */
+export function rewriteImportSpecifiers(
+  files: Record<string, string>,
+): Record<string, string> {
+  const resolver = new TypeScriptResolver();
+  return Object.fromEntries(
+    Object.entries(files).map(([filename, code]) => {
+      let language: SupportedLanguage;
+      try {
+        language = detectLanguage(filename);
+      } catch {
+        return [filename, code];
+      }
+      if (language === "python") {
+        return [filename, code];
+      }
+      try {
+        return [filename, resolver.rewriteImportSpecifiers(code, filename)];
+      } catch (error) {
+        console.warn(`Skipping import rewriting for ${filename}:`, error);
+        return [filename, code];
+      }
+    }),
+  );
+}
+
+/**
+ * Statically discover the Kernel apps and actions defined across the files
+ * Actions are matched to apps defined in the same file first, then to apps
+ * exported under the same name by another file
+ */
+export function discoverAppActions(files: Record<string, string>): AppManifest {
+  const definitions: [string, AppDefinitions][] = [];
+  for (const [filename, code] of Object.entries(files)) {
+    let language: SupportedLanguage;
+    try {
+      language = detectLanguage(filename);
+    } catch {
+      continue;
+    }
+    try {
+      definitions.push([
+        filename,
+        getResolver(language).extractAppDefinitions(code, filename),
+      ]);
+    } catch (error) {
+      console.warn(`Skipping app discovery for ${filename}:`, error);
+    }
   }
 
-  // Priority order for entrypoint detection
-  const entrypointCandidates = [
-    "index.ts",
-    "src/index.ts",
-    "app/index.ts",
-    "main.ts",
-    "src/main.ts",
-    "app/main.ts",
-    "index.py",
-    "src/index.py",
-    "app/index.py",
-    "main.py",
-    "src/main.py",
-    "app/main.py",
-  ];
+  const apps = definitions.flatMap(([file, { apps }]) =>
+    apps.map((app) => ({ ...app, file })),
+  );
+  const warnings: string[] = [];
+  const actions: AppActionInfo[] = [];
+
+  for (const [file, definition] of definitions) {
+    for (const action of definition.actions) {
+      let app: string | null;
+      if ("app" in action.receiver) {
+        app = action.receiver.app;
+      } else {
+        const variable = action.receiver.variable;
+        const defined =
+          apps.find((a) => a.file === file && a.variable === variable) ??
+          apps.find((a) => a.variable === variable);
+        // `.action(...)` on something that isn't a Kernel app
+        if (!defined) continue;
+        app = defined.name;
+      }
 
-  // Check exact matches first
-  for (const candidate of entrypointCandidates) {
-    if (files[candidate]) {
-      return candidate;
+      if (action.name === null) {
+        warnings.push(
+          `${file}:${action.line}: action name is not a string literal, so the action can't be discovered`,
+        );
+        continue;
+      }
+      actions.push({
+        name: action.name,
+        app,
+        file,
+        line: action.line,
+        handler: action.handler,
+        payloadType: action.payloadType,
+        outputType: action.outputType,
+      });
     }
   }
 
-  // Fallback: find any file matching entrypoint pattern
-  for (const filePath of fileKeys) {
-    const basename = filePath.split("/").pop() || "";
-    if (/^(index|main)\.(ts|py)$/.test(basename)) {
-      return filePath;
+  const appNames = Array.from(new Set(apps.map((app) => app.name)));
+  if (appNames.length > 1) {
+    warnings.push(`Multiple apps are defined: ${appNames.join(", ")}`);
+  }
+  const seen = new Map<string, AppActionInfo[]>();
+  for (const action of actions) {
+    const key = `${action.app}\0${action.name}`;
+    seen.set(key, [...(seen.get(key) ?? []), action]);
+  }
+  for (const duplicates of seen.values()) {
+    if (duplicates.length > 1) {
+      warnings.push(
+        `Action "${duplicates[0].name}" is defined more than once (${duplicates
+          .map((action) => `${action.file}:${action.line}`)
+          .join(", ")})`,
+      );
     }
   }
 
-  // Final fallback: use first file
-  return fileKeys[0];
+  return {
+    appName: appNames.length === 1 ? appNames[0] : null,
+    apps: apps.map(({ name, file, line }) => ({ name, file, line })),
+    actions,
+    warnings,
+  };
+}
+
+export interface MergeResult {
+  dependencies: Record<string, string>;
+  report: MergeReport;
 }
 
 /**
- * Generate project configuration files based on detected language
+ * Merge auto-discovered and user-provided dependencies
+ * User-provided dependencies take precedence over auto-discovered ones
+ * Constraints from provided dependencies, manifests in the files and
+ * previously recorded pins are checked against the versions published on the
+ * registry; invalid, unsatisfiable and conflicting constraints are rejected
  */
-export function generateProjectFiles(
+export async function mergeDependencies(
+  autoDependencies: Record<string, string>,
+  providedDependencies: Record<string, string> = {},
+  entrypointPath: string,
+  files: Record<string, string> = {},
+  options: ResolverOptions = {},
+  pins: Record<string, string> = {},
+): Promise<MergeResult> {
+  const language = detectLanguage(entrypointPath);
+  const resolver = getResolver(language, options);
+  const declared = [
+    ...resolver.listDeclaredDependencies(files),
+    ...resolver.listImportPins(files),
+  ];
+
+  // Every app needs the Kernel SDK, whether or not its source imports it
+  const { versionScheme: scheme, kernelSdk } = resolver;
+  const hasKernelSdk = [
+    ...Object.keys(autoDependencies),
+    ...Object.keys(providedDependencies),
+    ...declared.map((dep) => dep.package),
+  ].some(
+    (pkg) =>
+      scheme.normalizeName(pkg) === scheme.normalizeName(kernelSdk.package),
+  );
+  const withKernelSdk = hasKernelSdk
+    ? autoDependencies
+    : { ...autoDependencies, [kernelSdk.package]: kernelSdk.constraint };
+
+  const dependencies = resolver.mergeDependencies(
+    withKernelSdk,
+    providedDependencies,
+  );
+  const report = await buildMergeReport(resolver, {
+    autoDependencies: withKernelSdk,
+    providedDependencies,
+    declared,
+    finalDependencies: dependencies,
+    pins,
+    concurrency: getRegistrySettings(options).concurrency,
+  });
+  return { dependencies, report };
+}
+
+/**
+ * Replace each dependency's constraint with its pinned exact version
+ * Dependencies without a pinned version keep their constraint
+ */
+export function pinDependencies(
   entrypointPath: string,
   dependencies: Record<string, string>,
-): ProjectFiles {
+  pinned: Record<string, string>,
+): Record<string, string> {
   const language = detectLanguage(entrypointPath);
-  const resolver = getResolver(language);
-  return resolver.generateProjectFiles(
-    entrypointPath,
-    entrypointPath,
+  const { versionScheme } = getResolver(language);
+  return Object.fromEntries(
+    Object.entries(dependencies).map(([pkg, constraint]) => [
+      pkg,
+      pkg in pinned ? versionScheme.exact(pinned[pkg]) : constraint,
+    ]),
+  );
+}
+
+/**
+ * Check a bundle's final dependencies against the dependency policy
+ * `versions` are the exact versions the dependencies resolve to, as found by
+ * mergeDependencies
+ */
+export async function checkDependencyPolicy(
+  entrypointPath: string,
+  dependencies: Record<string, string>,
+  versions: Record<string, string>,
+  settings: DependencyPolicySettings = {},
+  options: ResolverOptions = {},
+): Promise<PolicyReport> {
+  const language = detectLanguage(entrypointPath);
+  return await evaluateDependencyPolicy(
+    getResolver(language, options),
+    language === "python" ? "pypi" : "npm",
     dependencies,
+    versions,
+    settings,
+    getRegistrySettings(options).concurrency,
   );
 }
 
 /**
- * Merge auto-discovered and user-provided dependencies
- * User-provided dependencies take precedence over auto-discovered ones
+ * Check every version constraint that applies to a bundle and describe how
+ * the final dependency set came together
+ * Throws listing every invalid, unsatisfiable or conflicting constraint; a
+ * Kernel SDK version outside the supported range is only a warning
  */
-export function mergeDependencies(
-  autoDependencies: Record<string, string>,
-  providedDependencies: Record<string, string> = {},
-  entrypointPath?: string,
-): Record<string, string> {
-  if (entrypointPath) {
-    const language = detectLanguage(entrypointPath);
-    const resolver = getResolver(language);
-    return resolver.mergeDependencies(autoDependencies, providedDependencies);
+async function buildMergeReport(
+  resolver: LanguageResolver,
+  {
+    autoDependencies,
+    providedDependencies,
+    declared,
+    finalDependencies,
+    pins,
+    concurrency,
+  }: {
+    autoDependencies: Record<string, string>;
+    providedDependencies: Record<string, string>;
+    declared: DeclaredDependency[];
+    finalDependencies: Record<string, string>;
+    // Exact versions recorded by an earlier deploy
+    pins: Record<string, string>;
+    concurrency: number;
+  },
+): Promise<MergeReport> {
+  const scheme = resolver.versionScheme;
+  const finalNames = new Map(
+    Object.keys(finalDependencies).map((pkg) => [
+      scheme.normalizeName(pkg),
+      pkg,
+    ]),
+  );
+
+  // Group explicit constraints by package
+  const groups = new Map<
+    string,
+    { name: string; constraints: VersionConstraint[] }
+  >();
+  const addConstraint = (pkg: string, constraint: VersionConstraint) => {
+    const key = scheme.normalizeName(pkg);
+    const group = groups.get(key) ?? {
+      name: finalNames.get(key) ?? pkg,
+      constraints: [],
+    };
+    group.constraints.push(constraint);
+    groups.set(key, group);
+  };
+  declared.forEach(({ package: pkg, ...constraint }) =>
+    addConstraint(pkg, constraint),
+  );
+  Object.entries(providedDependencies).forEach(([pkg, constraint]) =>
+    addConstraint(pkg, { source: "provided", constraint }),
+  );
+  // Pins only apply to packages the bundle still uses
+  for (const [pkg, version] of Object.entries(pins)) {
+    const key = scheme.normalizeName(pkg);
+    if (finalNames.has(key) || groups.has(key)) {
+      addConstraint(pkg, { source: "pins", constraint: scheme.exact(version) });
+    }
+  }
+  // Unless the user constrained it, the SDK resolves within the supported range
+  const { kernelSdk } = resolver;
+  const kernelSdkKey = scheme.normalizeName(kernelSdk.package);
+  if (finalNames.has(kernelSdkKey) && !groups.has(kernelSdkKey)) {
+    addConstraint(kernelSdk.package, {
+      source: "kernel-sdk",
+      constraint: kernelSdk.constraint,
+    });
+  }
+
+  const overrides: MergeReport["overrides"] = [];
+  for (const [pkg, discovered] of Object.entries(autoDependencies)) {
+    const provided = groups
+      .get(scheme.normalizeName(pkg))
+      ?.constraints.find((c) => c.source === "provided");
+    if (provided && provided.constraint !== discovered) {
+      overrides.push({
+        package: pkg,
+        discovered,
+        provided: provided.constraint,
+      });
+    }
+  }
+
+  const problems: string[] = [];
+  const conflicts: MergeReport["conflicts"] = [];
+  const pinned: Record<string, string> = {};
+  const unverified: string[] = [];
+  const warnings: string[] = [];
+
+  await mapWithConcurrency(
+    Array.from(groups.values()),
+    concurrency,
+    async ({ name, constraints }) => {
+      const invalid = constraints.filter(
+        (c) => scheme.classify(c.constraint) === "invalid",
+      );
+      invalid.forEach((c) =>
+        problems.push(
+          `Invalid version constraint "${c.constraint}" for ${name} (${c.source})`,
+        ),
+      );
+      const checkable = constraints.filter(
+        (c) => scheme.classify(c.constraint) === "checkable",
+      );
+      if (invalid.length > 0) {
+        return;
+      }
+      if (checkable.length < constraints.length || checkable.length === 0) {
+        unverified.push(name);
+        if (checkable.length === 0) return;
+      }
+
+      const versions = await resolver.listPackageVersions(name);
+      if (!versions) {
+        if (!unverified.includes(name)) unverified.push(name);
+        return;
+      }
+      const latest = scheme.maxSatisfying(versions, []);
+
+      const unsatisfiable = checkable.filter(
+        (c) => scheme.maxSatisfying(versions, [c.constraint]) === null,
+      );
+      unsatisfiable.forEach((c) =>
+        problems.push(
+          `No published version of ${name} satisfies "${c.constraint}" (${c.source})` +
+            (latest ? `; the latest version is ${latest}` : ""),
+        ),
+      );
+      if (unsatisfiable.length > 0) {
+        return;
+      }
+
+      const resolved = scheme.maxSatisfying(
+        versions,
+        checkable.map((c) => c.constraint),
+      );
+      // A pin agreeing with the other constraints isn't a conflict
+      const distinct = new Set(
+        checkable
+          .filter((c) => c.source !== "pins")
+          .map((c) => c.constraint.trim()),
+      );
+      if (!resolved) {
+        problems.push(
+          `Conflicting version constraints for ${name}: ` +
+            checkable.map((c) => `"${c.constraint}" (${c.source})`).join(", "),
+        );
+        return;
+      }
+      pinned[name] = resolved;
+      if (
+        scheme.normalizeName(name) === kernelSdkKey &&
+        scheme.maxSatisfying([resolved], [kernelSdk.constraint]) === null
+      ) {
+        warnings.push(
+          `${name} resolves to ${resolved} (` +
+            checkable.map((c) => `"${c.constraint}" (${c.source})`).join(", ") +
+            `), outside the supported range "${kernelSdk.constraint}"; the app may not work on this platform`,
+        );
+      }
+      if (distinct.size > 1) {
+        conflicts.push({ package: name, constraints: checkable, resolved });
+      }
+    },
+  );
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Dependency versions cannot be satisfied:\n- ${problems.join("\n- ")}`,
+    );
+  }
+
+  // Auto-discovered versions were looked up as "^latest" / ">=latest"
+  for (const [pkg, version] of Object.entries(finalDependencies)) {
+    if (groups.has(scheme.normalizeName(pkg))) continue;
+    const exact = /^(?:\^|>=)?(\d+\.\d+\S*)$/.exec(version);
+    if (exact) {
+      pinned[pkg] = exact[1];
+    } else {
+      unverified.push(pkg);
+    }
   }
 
-  return { ...autoDependencies, ...providedDependencies };
+  return {
+    overrides,
+    conflicts: conflicts.sort((a, b) => a.package.localeCompare(b.package)),
+    pinned,
+    unverified: unverified.sort(),
+    warnings,
+  };
 }
 
 export type {
   LanguageResolver,
+  ResolverOptions,
+  RegistryConfig,
+  MergeReport,
+  PolicyReport,
+  DependencyPolicySettings,
+  AppManifest,
+  AppActionInfo,
+  ManifestUpdate,
   DependencyInfo,
   ProjectFiles,
   SupportedLanguage,
   DeploymentConfig,
 };
-export { detectLanguage };
+export type { EntrypointCandidate };
+export { detectLanguage, detectEntrypoint, EntrypointDetectionError };
+export { REGISTRY_CONFIG_FILES } from "./resolvers/registry-config";
@@ -0,0 +1,105 @@
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { getOrgIdForJwt, getOrgSettingsForOrgId } from "./redis";
+import { RegistryConfig } from "./resolvers/types";
+import { BundleLimits } from "./bundle-files";
+import { DependencyPolicySettings } from "./dependency-policy";
+
+// Per-org settings, stored as JSON in Redis under `org-settings:<org_id>`
+export interface OrgSettings {
+  // Private npm registries and Python indexes used when deploying apps
+  registries?: RegistryConfig;
+  // Per-file and total size limits for deployed app bundles
+  bundleLimits?: BundleLimits;
+  // Whether dependency policy findings block deploys, and license checks
+  dependencyPolicy?: DependencyPolicySettings;
+  // Turns off exec_in_browser, which runs arbitrary commands in browser VMs
+  disableBrowserExec?: boolean;
+}
+
+// The Clerk JWT an OAuth caller authenticated with; API keys have none
+function clerkTokenOf(authInfo: AuthInfo | undefined): string | null {
+  const token = authInfo?.extra?.clerkToken;
+  return typeof token === "string" ? token : null;
+}
+
+/**
+ * Load settings for the org an OAuth access token was issued to
+ * Returns null when the org can't be resolved: API keys, tokens without a
+ * known org, no Redis, or a Redis error
+ */
+async function loadOrgSettings(
+  jwt: string | null | undefined,
+): Promise<OrgSettings | null> {
+  if (!jwt || !process.env.REDIS_URL) {
+    return null;
+  }
+
+  try {
+    const orgId = await getOrgIdForJwt({ jwt });
+    if (!orgId) {
+      return null;
+    }
+    const raw = await getOrgSettingsForOrgId({ orgId });
+    if (!raw) {
+      return {};
+    }
+    console.debug("[org-settings] loaded settings", { orgId });
+    return JSON.parse(raw) as OrgSettings;
+  } catch (error) {
+    console.warn("[org-settings] failed to load org settings", { error });
+    return null;
+  }
+}
+
+/**
+ * Load settings for the org an OAuth access token was issued to
+ * API keys and tokens without a known org get empty settings, so server-wide
+ * defaults such as DEPENDENCY_POLICY_ENFORCEMENT apply to them
+ */
+export async function getOrgSettings(
+  authInfo: AuthInfo | undefined,
+): Promise<OrgSettings> {
+  return (await loadOrgSettings(clerkTokenOf(authInfo))) ?? {};
+}
+
+/**
+ * Whether the caller may run commands in browser VMs
+ * Fails closed: exec is only allowed once the caller's org is resolved and
+ * hasn't turned it off, so API keys and unresolved orgs can't use it
+ */
+export async function isBrowserExecAllowed(
+  authInfo: AuthInfo | undefined,
+): Promise<boolean> {
+  const settings = await loadOrgSettings(clerkTokenOf(authInfo));
+  return settings !== null && !settings.disableBrowserExec;
+}
+
+/**
+ * Combine org-level registry settings with per-deploy overrides
+ * Scopes and auth tokens are merged key by key and extra indexes are combined;
+ * deploy values win
+ */
+export function mergeRegistryConfig(
+  orgConfig: RegistryConfig = {},
+  deployConfig: RegistryConfig = {},
+): RegistryConfig {
+  return {
+    npm: {
+      registryUrl: deployConfig.npm?.registryUrl ?? orgConfig.npm?.registryUrl,
+      scopes: { ...orgConfig.npm?.scopes, ...deployConfig.npm?.scopes },
+      authTokens: {
+        ...orgConfig.npm?.authTokens,
+        ...deployConfig.npm?.authTokens,
+      },
+    },
+    pip: {
+      indexUrl: deployConfig.pip?.indexUrl ?? orgConfig.pip?.indexUrl,
+      extraIndexUrls: Array.from(
+        new Set([
+          ...(orgConfig.pip?.extraIndexUrls ?? []),
+          ...(deployConfig.pip?.extraIndexUrls ?? []),
+        ]),
+      ),
+    },
+  };
+}
@@ -105,6 +105,27 @@ export async function setOrgIdForJwt({
   await withReconnect(() => client.setEx(key, ttlSeconds, orgId));
 }
 
+export async function getOrgIdForJwt({
+  jwt,
+}: {
+  jwt: string;
+}): Promise<string | null> {
+  await ensureConnected();
+  const hashedJwt = hashJwt(jwt);
+  const key = `jwt:${hashedJwt}`;
+  return await withReconnect(() => client.get(key));
+}
+
+export async function getOrgSettingsForOrgId({
+  orgId,
+}: {
+  orgId: string;
+}): Promise<string | null> {
+  await ensureConnected();
+  const key = `org-settings:${orgId}`;
+  return await withReconnect(() => client.get(key));
+}
+
 export { client as redisClient };
 
 export async function setOrgIdForRefreshToken({
@@ -151,6 +172,29 @@ export async function deleteOrgIdForRefreshToken({
   await withReconnect(() => client.del(key));
 }
 
+// Generic TTL cache entries, namespaced away from auth mappings
+export async function getCachedValue({
+  key,
+}: {
+  key: string;
+}): Promise<string | null> {
+  await ensureConnected();
+  return await withReconnect(() => client.get(`cache:${key}`));
+}
+
+export async function setCachedValue({
+  key,
+  value,
+  ttlSeconds,
+}: {
+  key: string;
+  value: string;
+  ttlSeconds: number;
+}): Promise<void> {
+  await ensureConnected();
+  await withReconnect(() => client.setEx(`cache:${key}`, ttlSeconds, value));
+}
+
 function isTransientSocketError(error: unknown): boolean {
   const message = String((error as any)?.message ?? error ?? "");
   return (
@@ -0,0 +1,335 @@
+// Entrypoint detection: pick the file a deployment should run, using the
+// manifests and contents of the bundle rather than the order of its keys
+
+import path from "path";
+import { detectLanguage } from "./types";
+import { readPyprojectScripts } from "./python-manifests";
+
+export interface EntrypointCandidate {
+  path: string;
+  // Why the file looks like an entrypoint
+  reasons: string[];
+}
+
+/**
+ * Raised when several files are equally plausible entrypoints
+ * Carries the candidates so callers can ask the user to choose one
+ */
+export class EntrypointDetectionError extends Error {
+  readonly candidates: EntrypointCandidate[];
+
+  constructor(message: string, candidates: EntrypointCandidate[]) {
+    super(message);
+    this.name = "EntrypointDetectionError";
+    this.candidates = candidates;
+  }
+}
+
+// Conventional entrypoint names, in priority order
+const ENTRYPOINT_CANDIDATES = [
+  "index.ts",
+  "src/index.ts",
+  "app/index.ts",
+  "main.ts",
+  "src/main.ts",
+  "app/main.ts",
+  "index.js",
+  "src/index.js",
+  "app/index.js",
+  "main.js",
+  "src/main.js",
+  "app/main.js",
+  "index.mjs",
+  "src/index.mjs",
+  "main.mjs",
+  "src/main.mjs",
+  "index.cjs",
+  "src/index.cjs",
+  "main.cjs",
+  "src/main.cjs",
+  "index.py",
+  "src/index.py",
+  "app/index.py",
+  "main.py",
+  "src/main.py",
+  "app/main.py",
+];
+
+const ENTRYPOINT_BASENAME = /^(index|main)\.(ts|js|mjs|cjs|py)$/;
+
+// Extensions tried when a manifest names a module without one
+const MODULE_SUFFIXES = [
+  "",
+  ".ts",
+  ".js",
+  ".mjs",
+  ".cjs",
+  "/index.ts",
+  "/index.js",
+];
+
+const PYTHON_MAIN_GUARD =
+  /^if\s+(?:__name__\s*==\s*["']__main__["']|["']__main__["']\s*==\s*__name__)\s*:/m;
+
+// Kernel app definitions: `kernel.app("name")` and `kernel.App("name")`
+const TS_KERNEL_APP = /\.app\s*\(\s*["'`]/;
+const TS_KERNEL_IMPORT =
+  /["'](?:npm:)?@onkernel\/sdk(?:@[^"'/]+)?(?:\/[^"']*)?["']/;
+const PY_KERNEL_APP = /\bApp\s*\(\s*["']/;
+const PY_KERNEL_IMPORT = /^\s*(?:import\s+kernel\b|from\s+kernel\b)/m;
+
+function isSourceFile(filePath: string): boolean {
+  try {
+    detectLanguage(filePath);
+    return !filePath.endsWith(".d.ts");
+  } catch {
+    return false;
+  }
+}
+
+function normalizePath(filePath: string): string {
+  return path.posix.normalize(filePath).replace(/^\.\//, "");
+}
+
+/**
+ * Whether a source file defines a Kernel app
+ */
+export function definesKernelApp(code: string, filePath: string): boolean {
+  if (detectLanguage(filePath) === "python") {
+    return PY_KERNEL_IMPORT.test(code) && PY_KERNEL_APP.test(code);
+  }
+  return TS_KERNEL_IMPORT.test(code) && TS_KERNEL_APP.test(code);
+}
+
+/**
+ * Resolve a module path named by a manifest to a source file in the bundle
+ */
+function resolveModulePath(
+  modulePath: string,
+  files: Record<string, string>,
+): string | null {
+  const base = normalizePath(modulePath);
+  for (const suffix of MODULE_SUFFIXES) {
+    const candidate = `${base}${suffix}`;
+    if (candidate in files && isSourceFile(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Entrypoints declared by package.json `scripts.start` and `main`
+ */
+function packageJsonEntrypoints(
+  files: Record<string, string>,
+): EntrypointCandidate[] {
+  let packageJson: Record<string, any>;
+  try {
+    packageJson = JSON.parse(files["package.json"] ?? "null") ?? {};
+  } catch {
+    return [];
+  }
+
+  const candidates: EntrypointCandidate[] = [];
+  const start = packageJson.scripts?.start;
+  if (typeof start === "string") {
+    // e.g. "node src/index.js", "bun run index.ts", "tsx ./main.ts"
+    const file = start
+      .split(/\s+|&&|;/)
+      .map((token) => token.replace(/^["']|["']$/g, ""))
+      .map((token) => (token ? resolveModulePath(token, files) : null))
+      .find((resolved) => resolved !== null);
+    if (file) {
+      candidates.push({ path: file, reasons: ["package.json scripts.start"] });
+    }
+  }
+  if (typeof packageJson.main === "string") {
+    const file = resolveModulePath(packageJson.main, files);
+    if (file) {
+      candidates.push({ path: file, reasons: ["package.json main"] });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Entrypoints declared by pyproject.toml console scripts
+ */
+function pyprojectEntrypoints(
+  files: Record<string, string>,
+): EntrypointCandidate[] {
+  const text = files["pyproject.toml"];
+  if (text === undefined) {
+    return [];
+  }
+
+  const candidates: EntrypointCandidate[] = [];
+  for (const [name, target] of Object.entries(readPyprojectScripts(text))) {
+    const modulePath = target.split(":")[0].trim().replace(/\./g, "/");
+    const file = [
+      `${modulePath}.py`,
+      `src/${modulePath}.py`,
+      `${modulePath}/__main__.py`,
+      `src/${modulePath}/__main__.py`,
+      `${modulePath}/__init__.py`,
+      `src/${modulePath}/__init__.py`,
+    ].find((candidate) => candidate in files);
+    if (file) {
+      candidates.push({
+        path: file,
+        reasons: [`pyproject.toml script "${name}"`],
+      });
+    }
+  }
+  return candidates;
+}
+
+// Merge candidates that point at the same file
+function groupCandidates(
+  candidates: EntrypointCandidate[],
+): EntrypointCandidate[] {
+  const byPath = new Map<string, EntrypointCandidate>();
+  for (const candidate of candidates) {
+    const existing = byPath.get(candidate.path);
+    if (existing) {
+      existing.reasons.push(...candidate.reasons);
+    } else {
+      byPath.set(candidate.path, {
+        ...candidate,
+        reasons: [...candidate.reasons],
+      });
+    }
+  }
+  return Array.from(byPath.values());
+}
+
+/**
+ * Detect the entrypoint file from a collection of files
+ *
+ * Signals, strongest first:
+ * 1. The entrypoint named by a supplied package.json (`scripts.start`, then
+ *    `main`) or pyproject.toml (`[project.scripts]`)
+ * 2. The file defining a Kernel app
+ * 3. The Python file with an `if __name__ == "__main__"` guard
+ * 4. Conventional names such as index.ts or main.py
+ * 5. The only source file in the bundle
+ *
+ * Throws EntrypointDetectionError listing the candidates when a signal points
+ * at several files and nothing narrows them to one
+ */
+export function detectEntrypoint(
+  files: Record<string, string>,
+  explicitEntrypoint?: string,
+): string {
+  if (explicitEntrypoint) {
+    if (!(explicitEntrypoint in files)) {
+      throw new Error(
+        `Specified entrypoint "${explicitEntrypoint}" not found in files`,
+      );
+    }
+    return explicitEntrypoint;
+  }
+
+  const fileKeys = Object.keys(files);
+  if (fileKeys.length === 0) {
+    throw new Error("No files provided");
+  }
+  const sourceFiles = fileKeys.filter(isSourceFile);
+  if (sourceFiles.length === 0) {
+    throw new Error(
+      "No TypeScript, JavaScript or Python source files provided",
+    );
+  }
+
+  const conventionalRank = (filePath: string) => {
+    const index = ENTRYPOINT_CANDIDATES.indexOf(filePath);
+    if (index !== -1) return index;
+    const basename = filePath.split("/").pop() || "";
+    return ENTRYPOINT_BASENAME.test(basename)
+      ? ENTRYPOINT_CANDIDATES.length
+      : -1;
+  };
+
+  // Pick a single candidate, preferring conventional names to break ties
+  const choose = (candidates: EntrypointCandidate[]): string | null => {
+    if (candidates.length === 1) {
+      return candidates[0].path;
+    }
+    const ranked = candidates
+      .map((candidate) => ({
+        candidate,
+        rank: conventionalRank(candidate.path),
+      }))
+      .filter(({ rank }) => rank !== -1)
+      .sort((a, b) => a.rank - b.rank);
+    if (
+      ranked.length > 0 &&
+      (ranked.length === 1 || ranked[0].rank < ranked[1].rank)
+    ) {
+      return ranked[0].candidate.path;
+    }
+    return null;
+  };
+
+  const ambiguous = (signal: string, candidates: EntrypointCandidate[]) =>
+    new EntrypointDetectionError(
+      `Multiple files could be the entrypoint (${signal}): ${candidates
+        .map((candidate) => candidate.path)
+        .join(", ")}. Specify the entrypoint explicitly.`,
+      candidates,
+    );
+
+  // Manifest-declared entrypoints; the start script wins over main
+  const fromPackageJson = packageJsonEntrypoints(files);
+  if (fromPackageJson.length > 0) {
+    return fromPackageJson[0].path;
+  }
+  const fromPyproject = groupCandidates(pyprojectEntrypoints(files));
+  if (fromPyproject.length > 0) {
+    const chosen = choose(fromPyproject);
+    if (chosen) return chosen;
+    throw ambiguous("pyproject.toml scripts", fromPyproject);
+  }
+
+  const contentSignals: [string, (code: string, file: string) => boolean][] = [
+    ["defines a Kernel app", definesKernelApp],
+    [
+      'has an if __name__ == "__main__" guard',
+      (code, file) => file.endsWith(".py") && PYTHON_MAIN_GUARD.test(code),
+    ],
+  ];
+  for (const [reason, matches] of contentSignals) {
+    const candidates = sourceFiles
+      .filter((file) => matches(files[file], file))
+      .map((file) => ({ path: file, reasons: [reason] }));
+    if (candidates.length === 0) continue;
+    const chosen = choose(candidates);
+    if (chosen) return chosen;
+    throw ambiguous(reason, candidates);
+  }
+
+  // Conventional names
+  for (const candidate of ENTRYPOINT_CANDIDATES) {
+    if (candidate in files) {
+      return candidate;
+    }
+  }
+  const named = sourceFiles
+    .filter((file) => ENTRYPOINT_BASENAME.test(file.split("/").pop() || ""))
+    .map((file) => ({ path: file, reasons: ["conventional name"] }));
+  if (named.length === 1) {
+    return named[0].path;
+  }
+  if (named.length > 1) {
+    throw ambiguous("conventional name", named);
+  }
+
+  if (sourceFiles.length === 1) {
+    return sourceFiles[0];
+  }
+  throw ambiguous(
+    "no entrypoint signals found",
+    sourceFiles.map((file) => ({ path: file, reasons: ["source file"] })),
+  );
+}
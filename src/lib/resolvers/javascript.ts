@@ -0,0 +1,140 @@
+import ts from "typescript";
+import { BundleContext, ProjectFiles } from "./types";
+import { TypeScriptResolver } from "./typescript";
+
+export type ModuleFormat = "esm" | "commonjs";
+
+// Whether a statement carries an `export` modifier (export const x = ...)
+function hasExportModifier(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword,
+    )
+  );
+}
+
+// Whether an expression is `module.exports` or `exports`
+function isCommonJsExportTarget(node: ts.Expression): boolean {
+  if (ts.isIdentifier(node)) {
+    return node.text === "exports";
+  }
+  return (
+    ts.isPropertyAccessExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "module" &&
+    node.name.text === "exports"
+  );
+}
+
+/**
+ * Detect whether a JavaScript file is an ES module or CommonJS
+ * `.mjs` and `.cjs` are decided by their extension; `.js` files by their
+ * syntax. Returns null when the file uses neither.
+ */
+export function detectModuleFormat(
+  code: string,
+  filename: string = "index.js",
+): ModuleFormat | null {
+  if (/\.mjs$/i.test(filename)) return "esm";
+  if (/\.cjs$/i.test(filename)) return "commonjs";
+
+  const sourceFile = ts.createSourceFile(
+    filename,
+    code,
+    ts.ScriptTarget.Latest,
+    false,
+    /\.jsx$/i.test(filename) ? ts.ScriptKind.JSX : ts.ScriptKind.JS,
+  );
+
+  let esm = false;
+  let commonjs = false;
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) ||
+      ts.isExportDeclaration(statement) ||
+      ts.isExportAssignment(statement) ||
+      hasExportModifier(statement)
+    ) {
+      esm = true;
+    }
+  }
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isMetaProperty(node) &&
+      node.keywordToken === ts.SyntaxKind.ImportKeyword
+    ) {
+      // import.meta
+      esm = true;
+    } else if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === "require"
+    ) {
+      commonjs = true;
+    } else if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken
+    ) {
+      // module.exports = ..., exports.x = ...
+      const target = ts.isPropertyAccessExpression(node.left)
+        ? node.left
+        : null;
+      if (
+        target &&
+        (isCommonJsExportTarget(target) ||
+          isCommonJsExportTarget(target.expression))
+      ) {
+        commonjs = true;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // ES modules may still call a require created with createRequire
+  if (esm) return "esm";
+  return commonjs ? "commonjs" : null;
+}
+
+/**
+ * Resolver for plain JavaScript apps
+ * Import discovery, registry lookups and package.json merging are shared with
+ * the TypeScript resolver; only the generated project differs
+ */
+export class JavaScriptResolver extends TypeScriptResolver {
+  /**
+   * Generate a package.json whose `type` matches the entrypoint's module format
+   */
+  generateProjectFiles(
+    filename: string,
+    entrypointRelPath: string,
+    dependencies: Record<string, string>,
+    devDependencies: Record<string, string> = {},
+    context?: BundleContext,
+  ): ProjectFiles {
+    const entrypointCode = context?.files[entrypointRelPath] ?? "";
+    // Files without imports or exports default to ES modules
+    const format =
+      detectModuleFormat(entrypointCode, entrypointRelPath) ?? "esm";
+
+    const packageJson = {
+      name: filename.replace(/\.[cm]?jsx?$/, ""),
+      version: "1.0.0",
+      type: format === "esm" ? "module" : "commonjs",
+      scripts: {
+        start: `node ${entrypointRelPath}`,
+      },
+      dependencies,
+      ...(Object.keys(devDependencies).length > 0 && { devDependencies }),
+    };
+
+    const npmrc = this.renderNpmrcFor(dependencies, devDependencies);
+
+    return {
+      "package.json": JSON.stringify(packageJson, null, 2),
+      ...(npmrc && { ".npmrc": npmrc }),
+    };
+  }
+}
@@ -0,0 +1,25 @@
+// The Kernel SDK every app depends on, held to the SDK line this server
+// supports
+// The range is checked against the registry with the other dependencies, so
+// a range with no published release fails the deploy up front and one that
+// can't be checked is reported as unverified
+
+import packageJson from "../../../package.json";
+import { KernelSdkRequirement } from "./types";
+
+// The @onkernel/sdk range in our own package.json
+const NPM_SDK_RANGE = packageJson.dependencies["@onkernel/sdk"];
+
+// The Python SDK is versioned separately from the npm one, so its supported
+// range is maintained here; raise it when the server supports a newer line
+const PYTHON_SDK_RANGE = ">=0.17.0,<0.18.0";
+
+export const NPM_KERNEL_SDK: KernelSdkRequirement = {
+  package: "@onkernel/sdk",
+  constraint: NPM_SDK_RANGE,
+};
+
+export const PYTHON_KERNEL_SDK: KernelSdkRequirement = {
+  package: "kernel",
+  constraint: PYTHON_SDK_RANGE,
+};
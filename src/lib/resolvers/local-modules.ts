@@ -0,0 +1,157 @@
+import path from "path";
+import ts from "typescript";
+import { BundleContext, PathAliases } from "./types";
+
+// Extensions tried when resolving a TypeScript/JavaScript module path
+const TS_RESOLUTION_SUFFIXES = [
+  "",
+  ".ts",
+  ".tsx",
+  ".d.ts",
+  ".js",
+  ".mjs",
+  ".cjs",
+  ".json",
+  "/index.ts",
+  "/index.tsx",
+  "/index.js",
+];
+
+// Normalize a bundle-relative path ("./src/../lib/x" -> "lib/x")
+function normalizePath(filePath: string): string {
+  const normalized = path.posix.normalize(filePath).replace(/^\.\//, "");
+  return normalized === "." ? "" : normalized.replace(/\/$/, "");
+}
+
+/**
+ * Build the context resolvers need to tell bundle modules from packages
+ */
+export function createBundleContext(
+  files: Record<string, string>,
+): BundleContext {
+  // JavaScript projects declare the same options in jsconfig.json
+  const tsconfig = files["tsconfig.json"] ?? files["jsconfig.json"];
+  return {
+    files,
+    ...(tsconfig && { pathAliases: parsePathAliases(tsconfig) }),
+  };
+}
+
+/**
+ * Read `baseUrl` and `paths` from tsconfig.json source (comments allowed)
+ */
+export function parsePathAliases(tsconfigText: string): PathAliases {
+  const { config, error } = ts.parseConfigFileTextToJson(
+    "tsconfig.json",
+    tsconfigText,
+  );
+  if (error || !config) {
+    console.warn("Ignoring unparseable tsconfig.json in bundle");
+    return { paths: {} };
+  }
+
+  const compilerOptions = config.compilerOptions ?? {};
+  const baseUrl =
+    typeof compilerOptions.baseUrl === "string"
+      ? normalizePath(compilerOptions.baseUrl)
+      : undefined;
+  const paths: Record<string, string[]> = {};
+  for (const [pattern, targets] of Object.entries(
+    compilerOptions.paths ?? {},
+  )) {
+    if (Array.isArray(targets)) {
+      paths[pattern] = targets.filter(
+        (target): target is string => typeof target === "string",
+      );
+    }
+  }
+
+  return { baseUrl, paths };
+}
+
+/**
+ * Whether a module path resolves to a file in the bundle
+ */
+function resolvesToBundleFile(
+  modulePath: string,
+  files: Record<string, string>,
+): boolean {
+  const base = normalizePath(modulePath);
+  return TS_RESOLUTION_SUFFIXES.some((suffix) => `${base}${suffix}` in files);
+}
+
+/**
+ * Whether a bare TypeScript specifier refers to code in the bundle via
+ * tsconfig `paths` aliases or `baseUrl`
+ */
+export function isLocalTypeScriptSpecifier(
+  specifier: string,
+  context?: BundleContext,
+): boolean {
+  const aliases = context?.pathAliases;
+  if (!aliases) {
+    return false;
+  }
+
+  for (const pattern of Object.keys(aliases.paths)) {
+    const star = pattern.indexOf("*");
+    if (star === -1) {
+      if (specifier === pattern) return true;
+      continue;
+    }
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix)
+    ) {
+      return true;
+    }
+  }
+
+  if (aliases.baseUrl !== undefined) {
+    return resolvesToBundleFile(
+      path.posix.join(aliases.baseUrl, specifier),
+      context.files,
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Whether a top-level Python module is provided by a file or package in the
+ * bundle, either at the bundle root or next to the importing file
+ */
+export function isLocalPythonModule(
+  moduleName: string,
+  importerPath: string | undefined,
+  context?: BundleContext,
+): boolean {
+  if (!context) {
+    return false;
+  }
+
+  const roots = new Set([""]);
+  if (importerPath) {
+    roots.add(normalizePath(path.posix.dirname(importerPath)));
+  }
+
+  const filePaths = Object.keys(context.files).map(normalizePath);
+  for (const root of roots) {
+    const modulePath = root ? `${root}/${moduleName}` : moduleName;
+    // Plain module (utils.py), regular or namespace package (helpers/...)
+    if (
+      filePaths.includes(`${modulePath}.py`) ||
+      filePaths.some(
+        (filePath) =>
+          filePath.startsWith(`${modulePath}/`) && filePath.endsWith(".py"),
+      )
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,60 @@
+// The lock artifact written by pinned deploys, recording the exact version
+// every dependency resolved to so a redeploy can reproduce them
+
+import { SupportedLanguage } from "./types";
+
+export const LOCKFILE_NAME = "kernel.lock.json";
+const LOCKFILE_VERSION = 1;
+
+export interface Lockfile {
+  lockfileVersion: number;
+  language: SupportedLanguage;
+  // Package name -> exact version
+  packages: Record<string, string>;
+}
+
+/**
+ * Read the pins recorded by a lockfile in the bundle, or null if there is none
+ */
+export function readLockfile(files: Record<string, string>): Lockfile | null {
+  const text = files[LOCKFILE_NAME];
+  if (text === undefined) {
+    return null;
+  }
+  let parsed: Partial<Lockfile>;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid ${LOCKFILE_NAME} in bundle: ${error}`);
+  }
+  if (parsed.lockfileVersion !== LOCKFILE_VERSION) {
+    throw new Error(
+      `Unsupported ${LOCKFILE_NAME} version ${parsed.lockfileVersion}; expected ${LOCKFILE_VERSION}`,
+    );
+  }
+  return {
+    lockfileVersion: LOCKFILE_VERSION,
+    language: parsed.language ?? "typescript",
+    packages: parsed.packages ?? {},
+  };
+}
+
+/**
+ * Render a lockfile with packages sorted so unchanged pins produce identical
+ * output
+ */
+export function renderLockfile(
+  language: SupportedLanguage,
+  packages: Record<string, string>,
+): string {
+  const lockfile: Lockfile = {
+    lockfileVersion: LOCKFILE_VERSION,
+    language,
+    packages: Object.fromEntries(
+      Object.keys(packages)
+        .sort()
+        .map((pkg) => [pkg, packages[pkg]]),
+    ),
+  };
+  return JSON.stringify(lockfile, null, 2) + "\n";
+}
@@ -0,0 +1,64 @@
+// Registry-prefixed import specifiers (`npm:zod@3.23`, `jsr:@std/path`) and
+// inline version pins (`zod@3.23`), as written for Deno, which bun and Node
+// can't import as-is
+
+import { RegistrySpecifier } from "./types";
+
+// [npm:|jsr:]name[@version][/subpath]
+const REGISTRY_SPECIFIER =
+  /^(?:(npm|jsr):)?(@[^/@\s]+\/[^/@\s]+|[^/@\s.][^/@\s]*)(?:@([^/\s]+))?(\/.*)?$/;
+
+/**
+ * Parse a specifier with a registry prefix or an inline version pin
+ * Returns null for ordinary specifiers and ones that can't be installed,
+ * such as unscoped `jsr:` names
+ */
+export function parseRegistrySpecifier(
+  specifier: string,
+): RegistrySpecifier | null {
+  const match = REGISTRY_SPECIFIER.exec(specifier);
+  if (!match) {
+    return null;
+  }
+  const [, prefix, packageName, version = null, subpath = ""] = match;
+  if (!prefix && version === null) {
+    return null;
+  }
+
+  if (prefix === "jsr") {
+    // JSR packages are always scoped and install from JSR's npm registry
+    // as @jsr/<scope>__<name>
+    if (!packageName.startsWith("@")) {
+      return null;
+    }
+    return {
+      registry: "jsr",
+      packageName,
+      installName: `@jsr/${packageName.slice(1).replace("/", "__")}`,
+      version,
+      rewritten: `${packageName}${subpath}`,
+    };
+  }
+
+  return {
+    registry: "npm",
+    packageName,
+    installName: packageName,
+    version,
+    rewritten: `${packageName}${subpath}`,
+  };
+}
+
+/**
+ * The package.json entry for a registry specifier's package
+ * JSR packages are installed under an npm alias so the rewritten imports
+ * resolve (`"@std/path": "npm:@jsr/std__path@^1.0.0"`)
+ */
+export function dependencyVersionFor(
+  specifier: RegistrySpecifier,
+  version: string,
+): string {
+  return specifier.installName === specifier.packageName
+    ? version
+    : `npm:${specifier.installName}@${version}`;
+}
@@ -0,0 +1,297 @@
+// PEP 440 version parsing, ordering and specifier matching
+// https://packaging.python.org/en/latest/specifications/version-specifiers/
+
+export interface Pep440Version {
+  epoch: number;
+  release: number[];
+  pre?: { label: "a" | "b" | "rc"; number: number };
+  post?: number;
+  dev?: number;
+  local?: string;
+}
+
+interface Specifier {
+  operator: string;
+  version: string;
+}
+
+const VERSION_PATTERN =
+  /^\s*v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?(\d+)?)?(?:-(\d+)|[-_.]?(post|rev|r)[-_.]?(\d+)?)?(?:[-_.]?(dev)[-_.]?(\d+)?)?(?:\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?\s*$/i;
+
+const SPECIFIER_PATTERN = /^\s*(~=|===|==|!=|<=|>=|<|>)\s*(\S+)\s*$/;
+
+const PRE_LABELS: Record<string, "a" | "b" | "rc"> = {
+  a: "a",
+  alpha: "a",
+  b: "b",
+  beta: "b",
+  c: "rc",
+  rc: "rc",
+  pre: "rc",
+  preview: "rc",
+};
+
+/**
+ * Parse a PEP 440 version, or null if it isn't one
+ */
+export function parseVersion(text: string): Pep440Version | null {
+  const match = VERSION_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [
+    ,
+    epoch,
+    release,
+    preLabel,
+    preNumber,
+    postImplicit,
+    postLabel,
+    postNumber,
+    devLabel,
+    devNumber,
+    local,
+  ] = match;
+  const toNumber = (value: string | undefined) =>
+    value ? parseInt(value, 10) : 0;
+  return {
+    epoch: toNumber(epoch),
+    release: release.split(".").map((part) => parseInt(part, 10)),
+    ...(preLabel && {
+      pre: {
+        label: PRE_LABELS[preLabel.toLowerCase()],
+        number: toNumber(preNumber),
+      },
+    }),
+    ...((postImplicit || postLabel) && {
+      post: toNumber(postImplicit ?? postNumber),
+    }),
+    ...(devLabel && { dev: toNumber(devNumber) }),
+    ...(local && { local: local.toLowerCase() }),
+  };
+}
+
+/**
+ * Whether a version is a pre-release or development release
+ */
+export function isPrerelease(version: Pep440Version): boolean {
+  return version.pre !== undefined || version.dev !== undefined;
+}
+
+function compareReleases(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Sort keys for the pre, post and dev segments, following PEP 440 ordering
+function segmentKeys(version: Pep440Version): number[] {
+  const preRank = { a: 0, b: 1, rc: 2 };
+  const pre =
+    version.pre !== undefined
+      ? [preRank[version.pre.label], version.pre.number]
+      : // 1.0.dev0 sorts before 1.0a0; a final release after all pre-releases
+        version.post === undefined && version.dev !== undefined
+        ? [-1, 0]
+        : [3, 0];
+  const post = version.post ?? -1;
+  const dev = version.dev ?? Number.MAX_SAFE_INTEGER;
+  return [...pre, post, dev];
+}
+
+/**
+ * Order two parsed versions
+ */
+export function compareParsedVersions(
+  a: Pep440Version,
+  b: Pep440Version,
+): number {
+  if (a.epoch !== b.epoch) return a.epoch - b.epoch;
+  const release = compareReleases(a.release, b.release);
+  if (release !== 0) return release;
+  const keysA = segmentKeys(a);
+  const keysB = segmentKeys(b);
+  for (let i = 0; i < keysA.length; i++) {
+    if (keysA[i] !== keysB[i]) return keysA[i] - keysB[i];
+  }
+  // A local version sorts after the same public version
+  return (a.local ? 1 : 0) - (b.local ? 1 : 0);
+}
+
+/**
+ * Order two version strings; unparseable versions sort first
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA || !parsedB) {
+    return (parsedA ? 1 : 0) - (parsedB ? 1 : 0);
+  }
+  return compareParsedVersions(parsedA, parsedB);
+}
+
+// Drop the local segment, which public specifiers ignore
+function publicVersion(version: Pep440Version): Pep440Version {
+  const { local: _local, ...rest } = version;
+  return rest;
+}
+
+/**
+ * Convert a Poetry-style caret or tilde requirement to PEP 440 specifiers
+ * ("^2.31" -> ">=2.31,<3"), or null if it isn't one
+ */
+export function expandPoetryConstraint(constraint: string): string | null {
+  const match = /^\s*([\^~])\s*(\d+(?:\.\d+)*)\s*$/.exec(constraint);
+  if (!match) {
+    return null;
+  }
+  const parts = match[2].split(".").map((part) => parseInt(part, 10));
+  let bumpAt: number;
+  if (match[1] === "^") {
+    const firstNonZero = parts.findIndex((part) => part !== 0);
+    bumpAt = firstNonZero === -1 ? parts.length - 1 : firstNonZero;
+  } else {
+    bumpAt = parts.length >= 2 ? 1 : 0;
+  }
+  const upper = parts.slice(0, bumpAt + 1);
+  upper[bumpAt] += 1;
+  return `>=${match[2]},<${upper.join(".")}`;
+}
+
+/**
+ * Parse a constraint into specifiers
+ * Accepts PEP 440 specifier sets (">=1.0,<2"), Poetry carets and tildes, and
+ * bare versions, which are read as minimums like elsewhere in the resolver
+ * Returns null if the constraint isn't valid
+ */
+export function parseSpecifiers(constraint: string): Specifier[] | null {
+  const trimmed = constraint.trim();
+  if (trimmed === "" || trimmed === "*") {
+    return [];
+  }
+  if (parseVersion(trimmed)) {
+    return [{ operator: ">=", version: trimmed }];
+  }
+  const expanded = expandPoetryConstraint(trimmed) ?? trimmed;
+
+  const specifiers: Specifier[] = [];
+  for (const part of expanded.split(",")) {
+    const match = SPECIFIER_PATTERN.exec(part);
+    if (!match) {
+      return null;
+    }
+    const [, operator, version] = match;
+    const wildcard = version.endsWith(".*");
+    if (wildcard && operator !== "==" && operator !== "!=") {
+      return null;
+    }
+    if (operator !== "===" && !parseVersion(version.replace(/\.\*$/, ""))) {
+      return null;
+    }
+    if (operator === "~=" && parseVersion(version)!.release.length < 2) {
+      return null;
+    }
+    specifiers.push({ operator, version });
+  }
+  return specifiers;
+}
+
+function matchesSpecifier(
+  candidate: Pep440Version,
+  candidateText: string,
+  specifier: Specifier,
+): boolean {
+  const { operator } = specifier;
+  if (operator === "===") {
+    return (
+      candidateText.trim().toLowerCase() === specifier.version.toLowerCase()
+    );
+  }
+
+  if (specifier.version.endsWith(".*")) {
+    // Prefix match on the release segment
+    const prefix = parseVersion(specifier.version.slice(0, -2))!;
+    const matches =
+      candidate.epoch === prefix.epoch &&
+      compareReleases(
+        candidate.release.slice(0, prefix.release.length),
+        prefix.release,
+      ) === 0;
+    return operator === "==" ? matches : !matches;
+  }
+
+  const target = parseVersion(specifier.version)!;
+  const comparable = target.local ? candidate : publicVersion(candidate);
+  const order = compareParsedVersions(comparable, target);
+
+  switch (operator) {
+    case "==":
+      return order === 0;
+    case "!=":
+      return order !== 0;
+    case "<=":
+      return order <= 0;
+    case ">=":
+      return order >= 0;
+    case "<":
+      // <1.0 excludes 1.0 pre-releases unless the bound is one itself
+      return (
+        order < 0 &&
+        (isPrerelease(target) ||
+          !isPrerelease(candidate) ||
+          compareReleases(candidate.release, target.release) !== 0)
+      );
+    case ">":
+      // >1.0 excludes 1.0 post-releases and local versions of 1.0
+      return (
+        order > 0 &&
+        !(
+          compareReleases(candidate.release, target.release) === 0 &&
+          target.post === undefined &&
+          (candidate.post !== undefined || candidate.local !== undefined) &&
+          candidate.pre === undefined
+        )
+      );
+    case "~=": {
+      const prefix = target.release.slice(0, -1);
+      return (
+        order >= 0 &&
+        candidate.epoch === target.epoch &&
+        compareReleases(candidate.release.slice(0, prefix.length), prefix) === 0
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Highest version that satisfies every specifier
+ * Pre-releases are only considered when a specifier names one
+ */
+export function maxSatisfyingVersion(
+  versions: string[],
+  specifiers: Specifier[],
+): string | null {
+  const allowPrereleases = specifiers.some((specifier) => {
+    const version = parseVersion(specifier.version.replace(/\.\*$/, ""));
+    return version !== null && isPrerelease(version);
+  });
+
+  let best: { text: string; version: Pep440Version } | null = null;
+  for (const text of versions) {
+    const version = parseVersion(text);
+    if (!version || (isPrerelease(version) && !allowPrereleases)) {
+      continue;
+    }
+    if (!specifiers.every((spec) => matchesSpecifier(version, text, spec))) {
+      continue;
+    }
+    if (!best || compareParsedVersions(version, best.version) > 0) {
+      best = { text, version };
+    }
+  }
+  return best?.text ?? null;
+}
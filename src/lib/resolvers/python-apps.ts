@@ -0,0 +1,266 @@
+// Scanner for Kernel apps and actions defined in Python source
+// Works on the import scanner's tokens, so definitions inside strings and
+// comments are ignored and multi-line signatures are read whole
+
+import { AppDefinitions, ActionDefinition } from "./types";
+import { LogicalLine, Token, tokenize } from "./python-imports";
+
+interface FunctionSignature {
+  name: string;
+  // Annotation of each parameter, in order; null when unannotated
+  parameters: { name: string; annotation: string | null }[];
+  returns: string | null;
+}
+
+// Action registered by a decorator, waiting for the function it decorates
+type PendingAction = Omit<
+  ActionDefinition,
+  "handler" | "payloadType" | "outputType"
+>;
+
+const isWord = (token: Token) => token.type !== "op";
+
+/**
+ * Render tokens back into source text, e.g. for a type annotation
+ */
+function renderTokens(tokens: Token[]): string {
+  let text = "";
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (
+      previous &&
+      ((isWord(previous) && isWord(token)) ||
+        previous.value === "," ||
+        previous.value === "|" ||
+        token.value === "|")
+    ) {
+      text += " ";
+    }
+    if (token.type === "string" || token.type === "fstring") {
+      text += `${token.type === "fstring" ? "f" : ""}"${token.value}"`;
+    } else {
+      text += token.value;
+    }
+  });
+  return text;
+}
+
+/**
+ * Split tokens at a separator outside brackets
+ */
+function splitTopLevel(tokens: Token[], separator: string): Token[][] {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.type === "op") {
+      if ("([{".includes(token.value)) depth++;
+      if (")]}".includes(token.value)) depth--;
+      if (token.value === separator && depth === 0) {
+        parts.push([]);
+        continue;
+      }
+    }
+    parts[parts.length - 1].push(token);
+  }
+  return parts.filter((part) => part.length > 0);
+}
+
+/**
+ * Index of the bracket closing the one opened at `open`
+ */
+function closingBracket(tokens: Token[], open: number): number {
+  let depth = 0;
+  for (let index = open; index < tokens.length; index++) {
+    if ("([{".includes(tokens[index].value)) depth++;
+    if (")]}".includes(tokens[index].value)) depth--;
+    if (depth === 0) return index;
+  }
+  return tokens.length;
+}
+
+/**
+ * Parse a `def` or `async def` line into its name and annotations
+ */
+function parseFunctionSignature(line: LogicalLine): FunctionSignature | null {
+  const tokens = line.tokens;
+  const start = tokens[0]?.value === "async" ? 1 : 0;
+  if (
+    tokens[start]?.value !== "def" ||
+    tokens[start + 1]?.type !== "name" ||
+    tokens[start + 2]?.value !== "("
+  ) {
+    return null;
+  }
+
+  const open = start + 2;
+  const close = closingBracket(tokens, open);
+  const parameters = splitTopLevel(tokens.slice(open + 1, close), ",")
+    // Bare `*` and `/` only separate keyword-only and positional parameters
+    .filter((param) => param[0].type === "name" || param.length > 1)
+    .map((param) => {
+      const tokensWithoutStars = param.filter(
+        (token, index) => !(index < 2 && token.value === "*"),
+      );
+      const [annotated] = splitTopLevel(tokensWithoutStars, "=");
+      const colon = annotated.findIndex((token) => token.value === ":");
+      return {
+        name: annotated[0].value,
+        annotation:
+          colon === -1 ? null : renderTokens(annotated.slice(colon + 1)),
+      };
+    });
+
+  // -> is tokenized as "-" ">"
+  let returns: string | null = null;
+  if (tokens[close + 1]?.value === "-" && tokens[close + 2]?.value === ">") {
+    const [annotation] = splitTopLevel(tokens.slice(close + 3), ":");
+    returns = annotation ? renderTokens(annotation) : null;
+  }
+
+  return { name: tokens[start + 1].value, parameters, returns };
+}
+
+/**
+ * Find a `<app>.action(<name>` call starting at index
+ * Returns the receiver variable and the literal action name, if any
+ */
+function readActionCall(
+  tokens: Token[],
+  index: number,
+): { variable: string; name: string | null; end: number } | null {
+  if (
+    tokens[index]?.type !== "name" ||
+    tokens[index + 1]?.value !== "." ||
+    tokens[index + 2]?.value !== "action" ||
+    tokens[index + 3]?.value !== "(" ||
+    // Part of a longer dotted name such as `self.app.action`
+    tokens[index - 1]?.value === "."
+  ) {
+    return null;
+  }
+  const nameToken = tokens[index + 4];
+  const literal =
+    nameToken?.type === "string" &&
+    [")", ","].includes(tokens[index + 5]?.value ?? "");
+  return {
+    variable: tokens[index].value,
+    name: literal ? nameToken.value : null,
+    end: closingBracket(tokens, index + 3),
+  };
+}
+
+/**
+ * Whether the `=` at index is an assignment rather than part of an operator
+ */
+function isAssignment(tokens: Token[], index: number): boolean {
+  return (
+    tokens[index].value === "=" &&
+    tokens[index + 1]?.value !== "=" &&
+    !["=", "!", "<", ">", ":"].includes(tokens[index - 1]?.value ?? "")
+  );
+}
+
+/**
+ * Scan Python source for Kernel apps (`app = kernel.App("name")`) and the
+ * actions registered on them, usually as decorators:
+ *
+ *   @app.action("scrape")
+ *   async def scrape(ctx: KernelContext, payload: ScrapeInput) -> ScrapeOutput:
+ *
+ * `app.action("scrape")(handler)` calls are found as well
+ */
+export function scanPythonAppDefinitions(code: string): AppDefinitions {
+  const lines = tokenize(code);
+  const apps: AppDefinitions["apps"] = [];
+  const actions: AppDefinitions["actions"] = [];
+
+  const functions = new Map<string, FunctionSignature>();
+  for (const line of lines) {
+    const signature = parseFunctionSignature(line);
+    if (signature) functions.set(signature.name, signature);
+  }
+
+  // Handlers receive the invocation context first and the payload second
+  const withHandler = (
+    action: PendingAction,
+    signature: FunctionSignature | undefined,
+    handlerName: string | null,
+  ): ActionDefinition => ({
+    ...action,
+    handler: signature?.name ?? handlerName,
+    payloadType: signature?.parameters[1]?.annotation ?? null,
+    outputType: signature?.returns ?? null,
+  });
+
+  let pending: PendingAction[] = [];
+  for (const line of lines) {
+    const tokens = line.tokens;
+
+    if (tokens[0]?.value === "@") {
+      const call = readActionCall(tokens, 1);
+      if (call) {
+        pending.push({
+          name: call.name,
+          receiver: { variable: call.variable },
+          line: line.line,
+        });
+      }
+      continue;
+    }
+
+    const signature = parseFunctionSignature(line);
+    pending.forEach((action) =>
+      actions.push(withHandler(action, signature ?? undefined, null)),
+    );
+    pending = [];
+    if (signature) continue;
+
+    // app = kernel.App("name")
+    const assignment = tokens.findIndex((_, index) =>
+      isAssignment(tokens, index),
+    );
+    if (tokens[0]?.type === "name" && assignment !== -1) {
+      let index = assignment + 1;
+      while (tokens[index + 1]?.value === "." && tokens[index + 2]) {
+        index += 2;
+      }
+      if (
+        tokens[index]?.value === "App" &&
+        tokens[index + 1]?.value === "(" &&
+        tokens[index + 2]?.type === "string"
+      ) {
+        apps.push({
+          name: tokens[index + 2].value,
+          variable: tokens[0].value,
+          line: line.line,
+        });
+      }
+    }
+
+    // app.action("name")(handler)
+    for (let index = 0; index < tokens.length; index++) {
+      const call = readActionCall(tokens, index);
+      if (!call) continue;
+      const handlerName =
+        tokens[call.end + 1]?.value === "(" &&
+        tokens[call.end + 2]?.type === "name" &&
+        tokens[call.end + 3]?.value === ")"
+          ? tokens[call.end + 2].value
+          : null;
+      actions.push(
+        withHandler(
+          {
+            name: call.name,
+            receiver: { variable: call.variable },
+            line: line.line,
+          },
+          handlerName ? functions.get(handlerName) : undefined,
+          handlerName,
+        ),
+      );
+      index = call.end;
+    }
+  }
+
+  return { apps, actions };
+}
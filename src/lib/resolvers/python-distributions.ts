@@ -0,0 +1,71 @@
+// Mapping from importable top-level module names to PyPI distribution names
+// Only modules whose import name differs from the name they are published under
+// need an entry here; everything else is looked up on PyPI as-is
+export const PYTHON_IMPORT_TO_DISTRIBUTION: Record<string, string> = {
+  attr: "attrs",
+  bs4: "beautifulsoup4",
+  Crypto: "pycryptodome",
+  cv2: "opencv-python",
+  dateutil: "python-dateutil",
+  discord: "discord.py",
+  dns: "dnspython",
+  docx: "python-docx",
+  dotenv: "python-dotenv",
+  fake_useragent: "fake-useragent",
+  fitz: "PyMuPDF",
+  git: "GitPython",
+  github: "PyGithub",
+  jose: "python-jose",
+  jwt: "PyJWT",
+  Levenshtein: "python-Levenshtein",
+  magic: "python-magic",
+  multipart: "python-multipart",
+  MySQLdb: "mysqlclient",
+  nacl: "PyNaCl",
+  OpenSSL: "pyOpenSSL",
+  PIL: "Pillow",
+  pptx: "python-pptx",
+  psycopg2: "psycopg2-binary",
+  serial: "pyserial",
+  skimage: "scikit-image",
+  sklearn: "scikit-learn",
+  slugify: "python-slugify",
+  socks: "PySocks",
+  telegram: "python-telegram-bot",
+  undetected_chromedriver: "undetected-chromedriver",
+  usb: "pyusb",
+  websocket: "websocket-client",
+  win32api: "pywin32",
+  yaml: "PyYAML",
+  zmq: "pyzmq",
+};
+
+/**
+ * Whether a module name has a known distribution mapping
+ */
+export function hasDistributionMapping(
+  moduleName: string,
+  extraMappings: Record<string, string> = {},
+): boolean {
+  return (
+    extraMappings.hasOwnProperty(moduleName) ||
+    PYTHON_IMPORT_TO_DISTRIBUTION.hasOwnProperty(moduleName)
+  );
+}
+
+/**
+ * Resolve the PyPI distribution name for a top-level module name
+ * Extra mappings take precedence over the built-in table
+ */
+export function resolveDistributionName(
+  moduleName: string,
+  extraMappings: Record<string, string> = {},
+): string {
+  if (extraMappings.hasOwnProperty(moduleName)) {
+    return extraMappings[moduleName];
+  }
+  if (PYTHON_IMPORT_TO_DISTRIBUTION.hasOwnProperty(moduleName)) {
+    return PYTHON_IMPORT_TO_DISTRIBUTION[moduleName];
+  }
+  return moduleName;
+}
@@ -0,0 +1,446 @@
+// Tokenizer-level scanner for Python import statements
+// Understands strings, comments, line continuations, bracketed statements and
+// indentation, so imports nested in blocks are found and text that only looks
+// like an import is ignored
+
+type TokenType = "name" | "op" | "string" | "fstring" | "number";
+
+export interface Token {
+  type: TokenType;
+  value: string;
+}
+
+export interface LogicalLine {
+  indent: number;
+  // 1-based line number the logical line starts on
+  line: number;
+  tokens: Token[];
+}
+
+export interface PythonImportScan {
+  // Dotted module names that must be importable at runtime
+  required: string[];
+  // Dotted module names imported inside `try/except ImportError` or only
+  // under `if TYPE_CHECKING:`, which aren't needed at runtime
+  optional: string[];
+}
+
+// Exceptions whose handlers make the imports in a try block optional
+const IMPORT_ERROR_NAMES = new Set([
+  "ImportError",
+  "ModuleNotFoundError",
+  "Exception",
+  "BaseException",
+]);
+
+// Compound statement keywords that may carry an inline body after ":"
+const COMPOUND_KEYWORDS = new Set([
+  "if",
+  "elif",
+  "else",
+  "try",
+  "except",
+  "finally",
+  "for",
+  "while",
+  "with",
+  "def",
+  "class",
+  "async",
+]);
+
+// Functions whose first string argument names a module to import
+const DYNAMIC_IMPORT_FUNCTIONS = new Set(["import_module", "__import__"]);
+
+const STRING_PREFIX = /^(?:[rRuUbBfF]|[rR][bBfF]|[bBfF][rR])$/;
+const NAME_START = /[\p{L}_]/u;
+const NAME_PART = /[\p{L}\p{N}_]/u;
+
+/**
+ * Split Python source into logical lines of tokens
+ */
+export function tokenize(code: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let tokens: Token[] = [];
+  let indent = 0;
+  let depth = 0;
+  let atLineStart = true;
+  let i = 0;
+  // Offset of the current logical line's first token
+  let lineStart = 0;
+  // Line numbers are counted lazily up to each logical line's start
+  let countedTo = 0;
+  let lineNumber = 1;
+
+  const pushToken = (start: number, token: Token) => {
+    if (tokens.length === 0) {
+      lineStart = start;
+    }
+    tokens.push(token);
+  };
+
+  const endLine = () => {
+    if (tokens.length > 0) {
+      for (; countedTo < lineStart; countedTo++) {
+        if (code[countedTo] === "\n") lineNumber++;
+      }
+      lines.push({ indent, line: lineNumber, tokens });
+    }
+    tokens = [];
+    atLineStart = true;
+  };
+
+  const readString = (prefix: string): Token => {
+    const quote = code[i];
+    const triple = code.startsWith(quote.repeat(3), i);
+    const delimiter = triple ? quote.repeat(3) : quote;
+    i += delimiter.length;
+    let value = "";
+    while (i < code.length) {
+      if (code[i] === "\\") {
+        value += code.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      if (code.startsWith(delimiter, i)) {
+        i += delimiter.length;
+        break;
+      }
+      // An unterminated single-quoted string ends at the line break
+      if (!triple && code[i] === "\n") {
+        break;
+      }
+      value += code[i];
+      i++;
+    }
+    return {
+      type: /[fF]/.test(prefix) ? "fstring" : "string",
+      value,
+    };
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+
+    if (atLineStart && depth === 0) {
+      // Measure indentation of a new logical line
+      let width = 0;
+      while (code[i] === " " || code[i] === "\t" || code[i] === "\f") {
+        width = code[i] === "\t" ? (Math.floor(width / 8) + 1) * 8 : width + 1;
+        i++;
+      }
+      indent = width;
+      atLineStart = false;
+      continue;
+    }
+
+    if (ch === "\n") {
+      i++;
+      if (depth === 0) {
+        endLine();
+      }
+      continue;
+    }
+
+    if (ch === "\\" && (code[i + 1] === "\n" || code[i + 1] === "\r")) {
+      // Explicit line continuation
+      i += code[i + 1] === "\r" && code[i + 2] === "\n" ? 3 : 2;
+      continue;
+    }
+
+    if (ch === " " || ch === "\t" || ch === "\r" || ch === "\f") {
+      i++;
+      continue;
+    }
+
+    if (ch === "#") {
+      while (i < code.length && code[i] !== "\n") i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      pushToken(i, readString(""));
+      continue;
+    }
+
+    if (NAME_START.test(ch)) {
+      const start = i;
+      let name = "";
+      while (i < code.length && NAME_PART.test(code[i])) {
+        name += code[i];
+        i++;
+      }
+      if ((code[i] === '"' || code[i] === "'") && STRING_PREFIX.test(name)) {
+        pushToken(start, readString(name));
+      } else {
+        pushToken(start, { type: "name", value: name });
+      }
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const start = i;
+      let num = "";
+      while (i < code.length && /[0-9a-zA-Z_.]/.test(code[i])) {
+        num += code[i];
+        i++;
+      }
+      pushToken(start, { type: "number", value: num });
+      continue;
+    }
+
+    if ("([{".includes(ch)) depth++;
+    if (")]}".includes(ch)) depth = Math.max(0, depth - 1);
+    pushToken(i, { type: "op", value: ch });
+    i++;
+  }
+  endLine();
+
+  return lines;
+}
+
+/**
+ * Parse a dotted name starting at index, returning the name and next index
+ */
+function readDottedName(
+  tokens: Token[],
+  start: number,
+): { name: string; next: number } | null {
+  if (tokens[start]?.type !== "name") {
+    return null;
+  }
+  let name = tokens[start].value;
+  let next = start + 1;
+  while (tokens[next]?.value === "." && tokens[next + 1]?.type === "name") {
+    name += "." + tokens[next + 1].value;
+    next += 2;
+  }
+  return { name, next };
+}
+
+/**
+ * Collect module names imported by a single simple statement
+ */
+function statementImports(tokens: Token[]): string[] {
+  const modules: string[] = [];
+  const first = tokens[0];
+
+  if (first?.type === "name" && first.value === "import") {
+    // import a, b.c as d
+    let index = 1;
+    while (index < tokens.length) {
+      const dotted = readDottedName(tokens, index);
+      if (!dotted) break;
+      modules.push(dotted.name);
+      index = dotted.next;
+      if (tokens[index]?.value === "as") index += 2;
+      if (tokens[index]?.value !== ",") break;
+      index++;
+    }
+  } else if (first?.type === "name" && first.value === "from") {
+    // from a.b import c; relative imports are local and skipped
+    if (tokens[1]?.value !== ".") {
+      const dotted = readDottedName(tokens, 1);
+      if (dotted && tokens[dotted.next]?.value === "import") {
+        modules.push(dotted.name);
+      }
+    }
+  }
+
+  // importlib.import_module("x") and __import__("x") anywhere in the statement
+  for (let index = 0; index < tokens.length - 3; index++) {
+    const [fn, open, arg, close] = tokens.slice(index, index + 4);
+    if (
+      fn.type === "name" &&
+      DYNAMIC_IMPORT_FUNCTIONS.has(fn.value) &&
+      open.value === "(" &&
+      arg.type === "string" &&
+      (close.value === ")" || close.value === ",") &&
+      arg.value.length > 0 &&
+      !arg.value.startsWith(".")
+    ) {
+      modules.push(arg.value);
+    }
+  }
+
+  return modules;
+}
+
+/**
+ * Split a logical line into statements, peeling off inline compound bodies
+ * e.g. `try: import x` yields the header and `import x`
+ */
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (token.type === "op") {
+      if ("([{".includes(token.value)) depth++;
+      if (")]}".includes(token.value)) depth = Math.max(0, depth - 1);
+      if (token.value === ";" && depth === 0) {
+        statements.push(current);
+        current = [];
+        continue;
+      }
+      if (
+        token.value === ":" &&
+        depth === 0 &&
+        current[0]?.type === "name" &&
+        COMPOUND_KEYWORDS.has(current[0].value) &&
+        !current.some((t) => t.value === "lambda")
+      ) {
+        current.push(token);
+        statements.push(current);
+        current = [];
+        continue;
+      }
+    }
+    current.push(token);
+  }
+  statements.push(current);
+
+  return statements.filter((statement) => statement.length > 0);
+}
+
+interface TryFrame {
+  // `if TYPE_CHECKING:` blocks are tracked like try blocks; their `elif` and
+  // `else` branches run normally
+  kind: "try" | "type-checking";
+  indent: number;
+  inBody: boolean;
+  catchesImportError: boolean;
+  imports: string[];
+}
+
+/**
+ * Whether a statement is `if TYPE_CHECKING:` or `if typing.TYPE_CHECKING:`
+ */
+function isTypeCheckingGuard(statement: Token[]): boolean {
+  const names = statement.slice(1, -1);
+  return (
+    statement[0].value === "if" &&
+    statement[statement.length - 1].value === ":" &&
+    names[names.length - 1]?.value === "TYPE_CHECKING" &&
+    names.every((t, i) => (i % 2 === 0 ? t.type === "name" : t.value === "."))
+  );
+}
+
+/**
+ * Scan Python source for imported module names
+ * Imports guarded by `try/except ImportError` or `if TYPE_CHECKING:` are
+ * reported as optional
+ */
+export function scanPythonImports(code: string): PythonImportScan {
+  const required = new Set<string>();
+  const optional = new Set<string>();
+  const frames: TryFrame[] = [];
+
+  // Imports belong to the innermost try block whose body is still open
+  const record = (modules: string[]) => {
+    for (let f = frames.length - 1; f >= 0; f--) {
+      if (frames[f].inBody) {
+        frames[f].imports.push(...modules);
+        return;
+      }
+    }
+    modules.forEach((name) => required.add(name));
+  };
+
+  const closeFrame = () => {
+    const frame = frames.pop();
+    if (!frame) return;
+    if (frame.catchesImportError || frame.kind === "type-checking") {
+      frame.imports.forEach((name) => optional.add(name));
+    } else {
+      record(frame.imports);
+    }
+  };
+
+  for (const line of tokenize(code)) {
+    const keyword = line.tokens[0]?.type === "name" ? line.tokens[0].value : "";
+
+    // Close try blocks that this line dedents out of
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const continuesTry =
+        line.indent === frame.indent &&
+        (frame.kind === "try"
+          ? keyword === "except" || keyword === "else" || keyword === "finally"
+          : keyword === "elif" || keyword === "else");
+      if (line.indent > frame.indent || continuesTry) break;
+      closeFrame();
+    }
+
+    for (const statement of splitStatements(line.tokens)) {
+      const head = statement[0].type === "name" ? statement[0].value : "";
+      const frame = frames[frames.length - 1];
+
+      if (head === "try" && statement[statement.length - 1].value === ":") {
+        frames.push({
+          kind: "try",
+          indent: line.indent,
+          inBody: true,
+          catchesImportError: false,
+          imports: [],
+        });
+        continue;
+      }
+
+      if (isTypeCheckingGuard(statement)) {
+        frames.push({
+          kind: "type-checking",
+          indent: line.indent,
+          inBody: true,
+          catchesImportError: false,
+          imports: [],
+        });
+        continue;
+      }
+
+      if (frame?.kind === "type-checking" && line.indent === frame.indent) {
+        if (head === "elif" || head === "else") {
+          frame.inBody = false;
+          continue;
+        }
+      }
+
+      if (frame?.kind === "try" && line.indent === frame.indent) {
+        if (head === "except") {
+          frame.inBody = false;
+          // A bare `except:` also swallows ImportError
+          const caught = statement.filter((t) => t.type === "name");
+          if (
+            statement[1]?.value === ":" ||
+            caught.some((t) => IMPORT_ERROR_NAMES.has(t.value))
+          ) {
+            frame.catchesImportError = true;
+          }
+          continue;
+        }
+        if (head === "else" || head === "finally") {
+          frame.inBody = false;
+          continue;
+        }
+      }
+
+      const modules = statementImports(statement);
+      if (modules.length > 0) {
+        record(modules);
+      }
+    }
+  }
+
+  while (frames.length > 0) {
+    closeFrame();
+  }
+
+  // Anything required somewhere is not optional
+  required.forEach((name) => optional.delete(name));
+
+  return {
+    required: Array.from(required),
+    optional: Array.from(optional),
+  };
+}
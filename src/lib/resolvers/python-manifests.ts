@@ -0,0 +1,543 @@
+// Reading and updating user-supplied Python manifests (pyproject.toml and
+// requirements.txt) without discarding anything the user declared
+
+import { expandPoetryConstraint } from "./pep440";
+
+export interface ParsedRequirement {
+  name: string;
+  // Everything after the name: extras, version specifiers and markers
+  spec: string;
+}
+
+const REQUIREMENT_PATTERN =
+  /^\s*([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(.*?)\s*$/;
+
+/**
+ * Normalize a distribution name per PEP 503 for comparisons
+ */
+export function normalizeDistributionName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+/**
+ * Parse a PEP 508 requirement string like `requests[socks]>=2.31; python_version>"3.8"`
+ */
+export function parseRequirement(
+  requirement: string,
+): ParsedRequirement | null {
+  const match = REQUIREMENT_PATTERN.exec(requirement);
+  if (!match) {
+    return null;
+  }
+  return { name: match[1], spec: match[2] };
+}
+
+/**
+ * Format a package and version constraint as a PEP 508 requirement
+ * Poetry carets and tildes aren't PEP 508, so they're written as the ranges
+ * they stand for (`requests^2.31` becomes `requests>=2.31,<3`)
+ */
+export function formatRequirement(pkg: string, version: string): string {
+  // Extras and markers around the constraint are kept as they are
+  const extras = /^\s*\[[^\]]*\]/.exec(version)?.[0];
+  if (extras) {
+    return formatRequirement(
+      `${pkg}${extras.trim()}`,
+      version.slice(extras.length),
+    );
+  }
+  const markerAt = version.indexOf(";");
+  if (markerAt !== -1) {
+    return (
+      formatRequirement(pkg, version.slice(0, markerAt).trim()) +
+      version.slice(markerAt)
+    );
+  }
+  if (/\^|~(?!=)/.test(version)) {
+    version = version
+      .split(",")
+      .map((part) => expandPoetryConstraint(part) ?? part.trim())
+      .join(",");
+  }
+  // Any version is expressed by the bare name
+  if (!version || version === "*") {
+    return pkg;
+  }
+  // If version already has a constraint operator, use it as-is
+  if (/^[><=~!]/.test(version)) {
+    return `${pkg}${version}`;
+  }
+  // If it's a bare version number, add >= prefix
+  if (/^\d+\.\d+/.test(version)) {
+    return `${pkg}>=${version}`;
+  }
+  // Default fallback
+  return `${pkg}${version}`;
+}
+
+/**
+ * Give a requirement a new version constraint, keeping its extras and
+ * environment markers unless the constraint brings its own
+ * (`requests[socks]>=2.0; python_version>"3.8"` with `==2.31.0` gives
+ * `requests[socks]==2.31.0; python_version>"3.8"`)
+ */
+export function setRequirementVersion(
+  requirement: string,
+  version: string,
+): string {
+  const parsed = parseRequirement(requirement);
+  if (!parsed) {
+    return requirement;
+  }
+  if (version.trim().startsWith("[") || version.includes(";")) {
+    return formatRequirement(parsed.name, version);
+  }
+  const extras = /^\s*(\[[^\]]*\])/.exec(parsed.spec)?.[1] ?? "";
+  const marker = /;.*$/.exec(parsed.spec)?.[0] ?? "";
+  return formatRequirement(`${parsed.name}${extras}`, version) + marker;
+}
+
+// Rewritten manifest text and the new constraint of each package changed
+export interface RequirementReplacement {
+  text: string;
+  replaced: Record<string, string>;
+}
+
+/**
+ * Look up a package's replacement constraint by normalized name
+ */
+function findReplacement(
+  replacements: Record<string, string>,
+  name: string,
+): string | undefined {
+  const key = normalizeDistributionName(name);
+  const match = Object.keys(replacements).find(
+    (pkg) => normalizeDistributionName(pkg) === key,
+  );
+  return match === undefined ? undefined : replacements[match];
+}
+
+/**
+ * Read requirements from requirements.txt, skipping pip options and comments
+ */
+export function readRequirementsTxt(text: string): Record<string, string> {
+  const requirements: Record<string, string> = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    // Skip blanks, options (-r, -e, --index-url) and direct URLs
+    if (!line || line.startsWith("-") || line.includes("://")) {
+      continue;
+    }
+    const parsed = parseRequirement(line);
+    if (parsed) {
+      requirements[parsed.name] = parsed.spec;
+    }
+  }
+  return requirements;
+}
+
+/**
+ * Append requirements to requirements.txt, leaving existing lines untouched
+ */
+export function addToRequirementsTxt(
+  text: string,
+  additions: Record<string, string>,
+): string {
+  const lines = Object.entries(additions).map(([pkg, version]) =>
+    formatRequirement(pkg, version),
+  );
+  if (lines.length === 0) {
+    return text;
+  }
+  const separator = text.length === 0 || text.endsWith("\n") ? "" : "\n";
+  return `${text}${separator}# Added by Kernel dependency resolution\n${lines.join("\n")}\n`;
+}
+
+/**
+ * Rewrite the constraints of requirements already in requirements.txt,
+ * leaving comments and every other line untouched
+ */
+export function replaceInRequirementsTxt(
+  text: string,
+  replacements: Record<string, string>,
+): RequirementReplacement {
+  const replaced: Record<string, string> = {};
+  const lines = text.split("\n").map((rawLine) => {
+    const [, requirement, comment] = /^(.*?)(\s+#.*)?(\r?)$/.exec(rawLine)!;
+    const trimmed = requirement.trim();
+    if (!trimmed || trimmed.startsWith("-") || trimmed.includes("://")) {
+      return rawLine;
+    }
+    const parsed = parseRequirement(trimmed);
+    const version = parsed
+      ? findReplacement(replacements, parsed.name)
+      : undefined;
+    if (!parsed || version === undefined) {
+      return rawLine;
+    }
+    const updated = setRequirementVersion(trimmed, version);
+    if (updated === trimmed) {
+      return rawLine;
+    }
+    replaced[parsed.name] = version;
+    const indent = requirement.match(/^\s*/)![0];
+    const lineEnd = rawLine.endsWith("\r") ? "\r" : "";
+    return `${indent}${updated}${comment ?? ""}${lineEnd}`;
+  });
+  return { text: lines.join("\n"), replaced };
+}
+
+interface TomlSection {
+  // Offset of the first character after the header line
+  bodyStart: number;
+  // Offset of the next header, or the end of the file
+  bodyEnd: number;
+}
+
+/**
+ * Locate a `[table]` section in TOML text
+ */
+function findTomlSection(text: string, name: string): TomlSection | null {
+  const headerPattern = /^[ \t]*\[\[?\s*([^\]\n]+?)\s*\]\]?[ \t]*(?:#.*)?$/gm;
+  let match;
+  let section: TomlSection | null = null;
+  while ((match = headerPattern.exec(text)) !== null) {
+    if (section) {
+      section.bodyEnd = match.index;
+      return section;
+    }
+    if (match[1] === name && !match[0].trim().startsWith("[[")) {
+      const lineEnd = text.indexOf("\n", match.index);
+      const bodyStart = lineEnd === -1 ? text.length : lineEnd + 1;
+      section = { bodyStart, bodyEnd: text.length };
+    }
+  }
+  return section;
+}
+
+interface TomlArray {
+  // Offset of "[" and "]"
+  open: number;
+  close: number;
+  // Parsed string entries with the offsets of each opening quote and just
+  // past each closing quote
+  entries: { value: string; start: number; end: number }[];
+}
+
+/**
+ * Parse a TOML array of strings starting at the "[" offset
+ */
+function parseTomlStringArray(text: string, open: number): TomlArray | null {
+  const entries: TomlArray["entries"] = [];
+  let i = open + 1;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "#") {
+      while (i < text.length && text[i] !== "\n") i++;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < text.length && text[i] !== ch) {
+        if (ch === '"' && text[i] === "\\") {
+          value += text[i + 1];
+          i += 2;
+          continue;
+        }
+        value += text[i];
+        i++;
+      }
+      i++;
+      entries.push({ value, start, end: i });
+      continue;
+    }
+    if (ch === "]") {
+      return { open, close: i, entries };
+    }
+    i++;
+  }
+  return null;
+}
+
+/**
+ * Find the `key = [ ... ]` string array inside a TOML section
+ */
+function findTomlArray(
+  text: string,
+  section: TomlSection,
+  key: string,
+): TomlArray | null {
+  const body = text.slice(section.bodyStart, section.bodyEnd);
+  const keyPattern = new RegExp(`^[ \\t]*${key}[ \\t]*=[ \\t]*\\[`, "m");
+  const match = keyPattern.exec(body);
+  if (!match) {
+    return null;
+  }
+  return parseTomlStringArray(
+    text,
+    section.bodyStart + match.index + match[0].length - 1,
+  );
+}
+
+// `name = value` lines of a Poetry dependency table
+const POETRY_DEPENDENCY_LINE =
+  /^([ \t]*"?([A-Za-z0-9][A-Za-z0-9._-]*)"?[ \t]*=[ \t]*)(.*?)[ \t]*$/gm;
+
+// Distribution names that aren't bare TOML keys (`discord.py`) are quoted,
+// or TOML would read the dots as nested tables
+const tomlKey = (name: string) =>
+  /^[A-Za-z0-9_-]+$/.test(name) ? name : JSON.stringify(name);
+
+// A string value of a key in a TOML inline table
+const inlineTableString = (table: string, key: string) =>
+  new RegExp(`\\b${key}\\s*=\\s*(["'])(.*?)\\1`).exec(table)?.[2];
+
+/**
+ * Read a Poetry dependency value as a requirement spec
+ * Inline tables give their version and extras
+ * (`{ version = "^2.31", extras = ["socks"] }` -> `[socks]^2.31`), and git,
+ * path and url dependencies become direct references
+ */
+function readPoetryConstraint(value: string): string {
+  const text = value.replace(/\s+#.*$/, "").trim();
+  if (!text.startsWith("{")) {
+    return text.replace(/^(["'])(.*)\1$/, "$2");
+  }
+  const git = inlineTableString(text, "git");
+  const path = inlineTableString(text, "path");
+  const url = inlineTableString(text, "url");
+  if (git) return `@ git+${git}`;
+  if (path) return `@ file:${path}`;
+  if (url) return `@ ${url}`;
+  const extras = /\bextras\s*=\s*\[([^\]]*)\]/
+    .exec(text)?.[1]
+    .split(",")
+    .map((extra) => extra.trim().replace(/^(["'])(.*)\1$/, "$2"))
+    .filter(Boolean);
+  const version = inlineTableString(text, "version") ?? "*";
+  return extras && extras.length > 0
+    ? `[${extras.join(",")}]${version === "*" ? "" : version}`
+    : version;
+}
+
+/**
+ * Read dependencies declared in pyproject.toml
+ * Supports PEP 621 `[project] dependencies` and Poetry dependency tables
+ */
+export function readPyprojectDependencies(
+  text: string,
+): Record<string, string> | null {
+  const project = findTomlSection(text, "project");
+  const array = project && findTomlArray(text, project, "dependencies");
+  if (array) {
+    const dependencies: Record<string, string> = {};
+    for (const entry of array.entries) {
+      const parsed = parseRequirement(entry.value);
+      if (parsed) {
+        dependencies[parsed.name] = parsed.spec;
+      }
+    }
+    return dependencies;
+  }
+
+  const poetry = findTomlSection(text, "tool.poetry.dependencies");
+  if (poetry) {
+    const dependencies: Record<string, string> = {};
+    const body = text.slice(poetry.bodyStart, poetry.bodyEnd);
+    for (const match of body.matchAll(POETRY_DEPENDENCY_LINE)) {
+      if (match[2] !== "python") {
+        dependencies[match[2]] = readPoetryConstraint(match[3]);
+      }
+    }
+    return dependencies;
+  }
+
+  // A [project] table without a dependencies array declares none
+  return project ? {} : null;
+}
+
+/**
+ * Read console scripts (`name = "module:function"`) declared in pyproject.toml
+ * under `[project.scripts]` or `[tool.poetry.scripts]`
+ */
+export function readPyprojectScripts(text: string): Record<string, string> {
+  const scripts: Record<string, string> = {};
+  for (const name of ["project.scripts", "tool.poetry.scripts"]) {
+    const section = findTomlSection(text, name);
+    if (!section) continue;
+    const body = text.slice(section.bodyStart, section.bodyEnd);
+    const linePattern =
+      /^[ \t]*"?([A-Za-z0-9][A-Za-z0-9._-]*)"?[ \t]*=[ \t]*["']([^"']+)["']/gm;
+    let match;
+    while ((match = linePattern.exec(body)) !== null) {
+      scripts[match[1]] = match[2];
+    }
+  }
+  return scripts;
+}
+
+/**
+ * Rewrite the constraints of dependencies already declared in pyproject.toml,
+ * in `[project] dependencies` or a Poetry dependency table
+ * Poetry inline tables keep their other keys, and git, path and url
+ * dependencies are left alone
+ */
+export function replaceInPyproject(
+  text: string,
+  replacements: Record<string, string>,
+): RequirementReplacement {
+  const replaced: Record<string, string> = {};
+
+  const project = findTomlSection(text, "project");
+  const array = project && findTomlArray(text, project, "dependencies");
+  if (array) {
+    // Back to front so earlier offsets stay valid
+    for (const entry of [...array.entries].reverse()) {
+      const parsed = parseRequirement(entry.value);
+      const version = parsed
+        ? findReplacement(replacements, parsed.name)
+        : undefined;
+      if (!parsed || version === undefined) continue;
+      const updated = setRequirementVersion(entry.value, version);
+      if (updated === entry.value) continue;
+      replaced[parsed.name] = version;
+      text =
+        text.slice(0, entry.start) +
+        JSON.stringify(updated) +
+        text.slice(entry.end);
+    }
+    return { text, replaced };
+  }
+
+  const poetry = findTomlSection(text, "tool.poetry.dependencies");
+  if (!poetry) {
+    return { text, replaced };
+  }
+  const body = text
+    .slice(poetry.bodyStart, poetry.bodyEnd)
+    .replace(POETRY_DEPENDENCY_LINE, (line, key, name, value) => {
+      const version = findReplacement(replacements, name);
+      if (name === "python" || version === undefined) {
+        return line;
+      }
+      // Poetry takes the version alone; extras stay in the table
+      const constraint =
+        version
+          .replace(/;.*$/, "")
+          .replace(/^\s*\[[^\]]*\]/, "")
+          .trim() || "*";
+      let updated: string;
+      if (!value.startsWith("{")) {
+        const comment = /\s+#.*$/.exec(value)?.[0] ?? "";
+        updated = JSON.stringify(constraint) + comment;
+      } else if (/\b(?:git|path|url)\s*=/.test(value)) {
+        return line;
+      } else if (inlineTableString(value, "version") !== undefined) {
+        updated = value.replace(
+          /\bversion(\s*=\s*)(["']).*?\2/,
+          `version$1${JSON.stringify(constraint)}`,
+        );
+      } else {
+        const declaration = `version = ${JSON.stringify(constraint)}`;
+        updated = value.replace(/^\{\s*(\})?/, (_: string, empty?: string) =>
+          empty ? `{ ${declaration} }` : `{ ${declaration}, `,
+        );
+      }
+      if (updated === value) {
+        return line;
+      }
+      replaced[name] = constraint;
+      return `${key}${updated}`;
+    });
+  return {
+    text: text.slice(0, poetry.bodyStart) + body + text.slice(poetry.bodyEnd),
+    replaced,
+  };
+}
+
+/**
+ * Add requirements to pyproject.toml, preserving its existing content
+ * Returns null when the file has no dependency table to add to
+ */
+export function addToPyproject(
+  text: string,
+  additions: Record<string, string>,
+): string | null {
+  const entries = Object.entries(additions);
+  const project = findTomlSection(text, "project");
+
+  if (project) {
+    const array = findTomlArray(text, project, "dependencies");
+    const requirements = entries.map(([pkg, version]) =>
+      JSON.stringify(formatRequirement(pkg, version)),
+    );
+    if (requirements.length === 0) {
+      return text;
+    }
+
+    if (!array) {
+      // Declare the dependencies array right after the [project] header
+      const declaration = `dependencies = [\n${requirements.map((r) => `    ${r},`).join("\n")}\n]\n`;
+      return (
+        text.slice(0, project.bodyStart) +
+        declaration +
+        text.slice(project.bodyStart)
+      );
+    }
+
+    const last = array.entries[array.entries.length - 1];
+    let before = text.slice(0, array.close);
+    const after = text.slice(array.close);
+
+    // Make sure the last existing entry is followed by a comma
+    if (last) {
+      const tail = text.slice(last.end, array.close);
+      if (!/^\s*,/.test(tail)) {
+        before = text.slice(0, last.end) + "," + tail;
+      }
+    }
+
+    const closingLineStart = before.lastIndexOf("\n") + 1;
+    const multiLine =
+      before.slice(array.open).includes("\n") &&
+      before.slice(closingLineStart).trim() === "";
+    if (multiLine) {
+      const firstEntryLine = text
+        .slice(0, array.entries[0]?.end ?? 0)
+        .split("\n")
+        .pop();
+      const indent = firstEntryLine?.match(/^[ \t]*/)?.[0] || "    ";
+      return (
+        before.slice(0, closingLineStart) +
+        requirements.map((r) => `${indent}${r},\n`).join("") +
+        before.slice(closingLineStart) +
+        after
+      );
+    }
+
+    const separator = last ? " " : "";
+    return before.trimEnd() + separator + requirements.join(", ") + after;
+  }
+
+  const poetry = findTomlSection(text, "tool.poetry.dependencies");
+  if (poetry) {
+    const lines = entries.map(
+      ([pkg, version]) =>
+        `${tomlKey(pkg)} = ${JSON.stringify(version || "*")}\n`,
+    );
+    // Insert after the last non-blank line of the section
+    const body = text.slice(poetry.bodyStart, poetry.bodyEnd);
+    const insertAt = poetry.bodyStart + body.trimEnd().length;
+    const prefix = body.trimEnd().length > 0 ? "\n" : "";
+    return (
+      text.slice(0, insertAt) +
+      prefix +
+      lines.join("").trimEnd() +
+      text.slice(insertAt)
+    );
+  }
+
+  return null;
+}
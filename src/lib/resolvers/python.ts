@@ -1,4 +1,98 @@
-import { LanguageResolver, DependencyInfo, ProjectFiles } from "./types";
+import {
+  LanguageResolver,
+  DependencyInfo,
+  ProjectFiles,
+  BundleContext,
+  ManifestMergeResult,
+  ManifestUpdate,
+  ResolverOptions,
+  DeclaredDependency,
+  VersionScheme,
+  AppDefinitions,
+  KernelSdkRequirement,
+} from "./types";
+import {
+  hasDistributionMapping,
+  resolveDistributionName,
+} from "./python-distributions";
+import { scanPythonImports } from "./python-imports";
+import { scanPythonAppDefinitions } from "./python-apps";
+import { isLocalPythonModule } from "./local-modules";
+import { maxSatisfyingVersion } from "./pep440";
+import { createPep440VersionScheme } from "./version-schemes";
+import { PYTHON_KERNEL_SDK } from "./kernel-sdk";
+import {
+  addToPyproject,
+  addToRequirementsTxt,
+  formatRequirement,
+  normalizeDistributionName,
+  readPyprojectDependencies,
+  readRequirementsTxt,
+  replaceInPyproject,
+  replaceInRequirementsTxt,
+} from "./python-manifests";
+import {
+  RegistrySettings,
+  cachedRegistryLookup,
+  fetchRegistry,
+  fetchRegistryJson,
+  getRegistrySettings,
+  isRegistryNotFound,
+  mapWithConcurrency,
+} from "./registry";
+import {
+  parseSimpleIndexVersions,
+  registryCacheId,
+  pipIndexEnv,
+  withoutCredentials,
+} from "./registry-config";
+
+// SPDX identifiers for the common `License :: ...` trove classifiers
+const CLASSIFIER_LICENSES: Record<string, string> = {
+  "MIT License": "MIT",
+  "Apache Software License": "Apache-2.0",
+  "BSD License": "BSD-3-Clause",
+  "ISC License (ISCL)": "ISC",
+  "Mozilla Public License 2.0 (MPL 2.0)": "MPL-2.0",
+  "GNU General Public License v2 (GPLv2)": "GPL-2.0-only",
+  "GNU General Public License v2 or later (GPLv2+)": "GPL-2.0-or-later",
+  "GNU General Public License v3 (GPLv3)": "GPL-3.0-only",
+  "GNU General Public License v3 or later (GPLv3+)": "GPL-3.0-or-later",
+  "GNU Lesser General Public License v2 (LGPLv2)": "LGPL-2.0-only",
+  "GNU Lesser General Public License v2 or later (LGPLv2+)":
+    "LGPL-2.0-or-later",
+  "GNU Lesser General Public License v3 (LGPLv3)": "LGPL-3.0-only",
+  "GNU Lesser General Public License v3 or later (LGPLv3+)":
+    "LGPL-3.0-or-later",
+  "GNU Affero General Public License v3": "AGPL-3.0-only",
+  "GNU Affero General Public License v3 or later (AGPLv3+)":
+    "AGPL-3.0-or-later",
+  "The Unlicense (Unlicense)": "Unlicense",
+};
+
+/**
+ * Combine a release's license classifiers into an SPDX-style expression
+ * Classifiers without a known identifier are kept as written
+ */
+function licenseFromClassifiers(classifiers: string[]): string | null {
+  const licenses = classifiers
+    .filter((classifier) => classifier.startsWith("License :: "))
+    .map((classifier) => classifier.split(" :: ").pop() ?? "")
+    .filter((name) => name && name !== "OSI Approved")
+    .map((name) => CLASSIFIER_LICENSES[name] ?? name);
+  return licenses.length > 0 ? licenses.join(" OR ") : null;
+}
+
+export interface PythonResolverOptions extends ResolverOptions {
+  // Additional module -> distribution mappings on top of the built-in table
+  distributionMappings?: Record<string, string>;
+}
+
+// Versions a package index offers for a distribution
+interface Releases {
+  latest: string;
+  versions: string[];
+}
 
 // Python built-in modules (comprehensive list based on Python 3.12+ documentation)
 // This includes the standard library modules that come with Python
@@ -205,98 +299,422 @@ const PYTHON_BUILTINS = new Set([
 ]);
 
 export class PythonResolver implements LanguageResolver {
+  // Additional module -> distribution mappings on top of the built-in table
+  private readonly distributionMappings: Record<string, string>;
+  private readonly registry: RegistrySettings;
+  readonly versionScheme: VersionScheme;
+  readonly kernelSdk: KernelSdkRequirement = PYTHON_KERNEL_SDK;
+
+  constructor(options: PythonResolverOptions = {}) {
+    this.distributionMappings = options.distributionMappings ?? {};
+    this.registry = getRegistrySettings(options);
+    this.versionScheme = createPep440VersionScheme((name) =>
+      this.getDistributionName(name),
+    );
+  }
+
+  /**
+   * Reduce imported module names to top-level third-party packages
+   */
+  private toTopLevelPackages(moduleNames: string[]): string[] {
+    const packages = new Set<string>();
+    for (const moduleName of moduleNames) {
+      // Get the top-level package name
+      const topLevelPackage = moduleName.split(".")[0];
+
+      // Skip Python built-in modules
+      if (
+        !PYTHON_BUILTINS.has(topLevelPackage) &&
+        !PYTHON_BUILTINS.has(moduleName)
+      ) {
+        packages.add(topLevelPackage);
+      }
+    }
+    return Array.from(packages);
+  }
+
+  /**
+   * Extract required and optional top-level packages from Python source
+   * Optional packages are those only imported inside `try/except ImportError`
+   * or `if TYPE_CHECKING:`
+   * Modules provided by files in the bundle are reported as local
+   */
+  extractImportsWithOptional(
+    code: string,
+    filename?: string,
+    context?: BundleContext,
+  ): {
+    required: string[];
+    optional: string[];
+    local: string[];
+  } {
+    const scan = scanPythonImports(code);
+    const local: string[] = [];
+    const isThirdParty = (moduleName: string) => {
+      if (isLocalPythonModule(moduleName, filename, context)) {
+        local.push(moduleName);
+        return false;
+      }
+      return true;
+    };
+
+    const required = this.toTopLevelPackages(scan.required).filter(
+      isThirdParty,
+    );
+    const optional = this.toTopLevelPackages(scan.optional).filter(
+      (pkg) => !required.includes(pkg) && isThirdParty(pkg),
+    );
+    return { required, optional, local };
+  }
+
   /**
    * Extract package names from Python import statements
    */
   extractImports(code: string): string[] {
-    const imports = new Set<string>();
-
-    // Regex patterns for different Python import styles
-    const patterns = [
-      // import module
-      /^import\s+([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)/gm,
-      // from module import ...
-      /^from\s+([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)\s+import/gm,
-    ];
-
-    for (const pattern of patterns) {
-      let match;
-      while ((match = pattern.exec(code)) !== null) {
-        const moduleName = match[1];
-
-        // Skip relative imports (starting with .)
-        if (moduleName.startsWith(".")) {
-          continue;
+    return this.extractImportsWithOptional(code).required;
+  }
+
+  /**
+   * Python imports can't carry version pins
+   */
+  listImportPins(): DeclaredDependency[] {
+    return [];
+  }
+
+  /**
+   * Find Kernel apps and the actions registered on them
+   */
+  extractAppDefinitions(code: string): AppDefinitions {
+    return scanPythonAppDefinitions(code);
+  }
+
+  /**
+   * Map an importable module name to its PyPI distribution name
+   */
+  getDistributionName(moduleName: string): string {
+    return resolveDistributionName(moduleName, this.distributionMappings);
+  }
+
+  /**
+   * Query PyPI's JSON API for the releases of a distribution
+   * Returns null when PyPI doesn't have the distribution, and throws when
+   * PyPI can't be reached
+   */
+  private async fetchPypiReleases(
+    distributionName: string,
+  ): Promise<Releases | null> {
+    const { pypiUrl, timeoutMs, cacheTtlSeconds } = this.registry;
+    return await cachedRegistryLookup<Releases>(
+      `pypi-releases:${pypiUrl}:${normalizeDistributionName(distributionName)}`,
+      cacheTtlSeconds,
+      async () => {
+        try {
+          const data = await fetchRegistryJson(
+            `${pypiUrl}/${distributionName}/json`,
+            timeoutMs,
+          );
+          if (!data.info?.version) {
+            return null;
+          }
+          // Skip releases without files or whose files were all yanked
+          const versions = Object.entries(data.releases ?? {})
+            .filter(
+              ([, files]) =>
+                Array.isArray(files) &&
+                files.some((file: { yanked?: boolean }) => !file.yanked),
+            )
+            .map(([version]) => version);
+          return { latest: data.info.version, versions };
+        } catch (error) {
+          if (isRegistryNotFound(error)) {
+            return null;
+          }
+          console.warn(
+            `Failed to lookup version for ${distributionName}:`,
+            error,
+          );
+          throw error;
+        }
+      },
+    );
+  }
+
+  /**
+   * Query a simple repository index (PEP 503/691) for the releases of a
+   * distribution; the latest is the highest final release
+   * Returns null when the index doesn't list it, and throws when the index
+   * can't be reached
+   */
+  private async fetchIndexReleases(
+    indexUrl: string,
+    distributionName: string,
+  ): Promise<Releases | null> {
+    const { timeoutMs, cacheTtlSeconds } = this.registry;
+    const project = normalizeDistributionName(distributionName);
+    return await cachedRegistryLookup<Releases>(
+      `pip-index:${registryCacheId(indexUrl)}:${project}`,
+      cacheTtlSeconds,
+      async () => {
+        try {
+          const response = await fetchRegistry(
+            `${indexUrl.replace(/\/+$/, "")}/${project}/`,
+            timeoutMs,
+            { Accept: "application/vnd.pypi.simple.v1+json, text/html;q=0.1" },
+          );
+          const versions = parseSimpleIndexVersions(
+            response.headers.get("content-type") ?? "",
+            await response.text(),
+          );
+          const latest = maxSatisfyingVersion(versions, []);
+          return latest ? { latest, versions } : null;
+        } catch (error) {
+          if (isRegistryNotFound(error)) {
+            return null;
+          }
+          console.warn(
+            `Failed to lookup version for ${distributionName} on ${withoutCredentials(indexUrl)}:`,
+            error,
+          );
+          throw error;
         }
+      },
+    );
+  }
 
-        // Get the top-level package name
-        const topLevelPackage = moduleName.split(".")[0];
+  /**
+   * Find the releases of a distribution
+   * Configured indexes are searched first, in order; PyPI is only searched
+   * when no index URL replaces it
+   * Returns null only when every registry searched reports the distribution
+   * missing; throws when one couldn't be reached, as it may have it
+   */
+  private async searchReleases(
+    distributionName: string,
+  ): Promise<Releases | null> {
+    const pip = this.registry.registries.pip;
+    const sources = [
+      ...(pip?.indexUrl ? [pip.indexUrl] : []),
+      ...(pip?.extraIndexUrls ?? []),
+    ].map(
+      (indexUrl) => () => this.fetchIndexReleases(indexUrl, distributionName),
+    );
+    if (!pip?.indexUrl) {
+      sources.push(() => this.fetchPypiReleases(distributionName));
+    }
 
-        // Skip Python built-in modules
-        if (
-          !PYTHON_BUILTINS.has(topLevelPackage) &&
-          !PYTHON_BUILTINS.has(moduleName)
-        ) {
-          imports.add(topLevelPackage);
+    let failure: unknown = null;
+    for (const source of sources) {
+      try {
+        const releases = await source();
+        if (releases) {
+          return releases;
         }
+      } catch (error) {
+        failure = failure ?? error;
       }
     }
-
-    return Array.from(imports);
+    if (failure) {
+      throw failure;
+    }
+    return null;
   }
 
   /**
-   * Lookup package version from PyPI registry
+   * Find the releases of a distribution
+   * Returns null when the distribution cannot be found or a registry is
+   * unavailable
    */
-  async lookupPackageVersion(packageName: string): Promise<string> {
+  private async fetchReleases(
+    distributionName: string,
+  ): Promise<Releases | null> {
     try {
-      const response = await fetch(`https://pypi.org/pypi/${packageName}/json`);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      const data = await response.json();
+      return await this.searchReleases(distributionName);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Find the latest version of a distribution
+   * Returns null when the distribution cannot be found
+   */
+  private async fetchLatestVersion(
+    distributionName: string,
+  ): Promise<string | null> {
+    return (await this.fetchReleases(distributionName))?.latest ?? null;
+  }
 
-      return `>=${data.info.version}`;
-    } catch (error) {
-      console.warn(`Failed to lookup version for ${packageName}:`, error);
-      // Fallback to latest
-      return "*";
+  /**
+   * List published versions of a package
+   * Accepts either a module name or a distribution name
+   */
+  async listPackageVersions(packageName: string): Promise<string[] | null> {
+    const releases = await this.fetchReleases(
+      this.getDistributionName(packageName),
+    );
+    return releases?.versions ?? null;
+  }
+
+  /**
+   * Read a release's license from PyPI's JSON API, preferring the PEP 639
+   * `license_expression`, then a short `license` field, then the trove
+   * classifiers; private indexes don't report licenses
+   * Accepts either a module name or a distribution name
+   */
+  async lookupPackageLicense(
+    packageName: string,
+    version: string | null,
+  ): Promise<string | null> {
+    if (this.registry.registries.pip?.indexUrl) {
+      return null;
     }
+    const { pypiUrl, timeoutMs, cacheTtlSeconds } = this.registry;
+    const distributionName = this.getDistributionName(packageName);
+    const release = version
+      ? `${distributionName}/${version}`
+      : distributionName;
+    // Wrapped so releases without a license are cached too
+    const result = await cachedRegistryLookup<{ license: string | null }>(
+      `pypi-license:${pypiUrl}:${normalizeDistributionName(distributionName)}@${version ?? "latest"}`,
+      cacheTtlSeconds,
+      async () => {
+        try {
+          const { info } = await fetchRegistryJson(
+            `${pypiUrl}/${release}/json`,
+            timeoutMs,
+          );
+          const license =
+            info?.license_expression ||
+            // The free-text field sometimes holds the whole license text
+            (typeof info?.license === "string" &&
+            info.license.length <= 100 &&
+            !info.license.includes("\n")
+              ? info.license
+              : null) ||
+            licenseFromClassifiers(info?.classifiers ?? []);
+          return { license: license || null };
+        } catch (error) {
+          console.warn(
+            `Failed to lookup license for ${distributionName}:`,
+            error,
+          );
+          return null;
+        }
+      },
+    );
+    return result?.license ?? null;
+  }
+
+  /**
+   * Lookup package version from PyPI registry
+   * Accepts either a module name or a distribution name
+   */
+  async lookupPackageVersion(packageName: string): Promise<string> {
+    const version = await this.fetchLatestVersion(
+      this.getDistributionName(packageName),
+    );
+    // Fallback to latest
+    return version ? `>=${version}` : "*";
   }
 
   /**
    * Resolve all dependencies for a Python file
+   * Dependencies are keyed by PyPI distribution name, not module name
    */
   async resolveDependencies(
     code: string,
     providedDependencies?: Record<string, string>,
+    filename?: string,
+    context?: BundleContext,
   ): Promise<DependencyInfo> {
     // Discover dependencies from import statements
-    const discoveredPackages = this.extractImports(code);
+    const {
+      required: modules,
+      optional,
+      local,
+    } = this.extractImportsWithOptional(code, filename, context);
     const providedPackageNames = new Set(
-      Object.keys(providedDependencies || {}),
+      Object.keys(providedDependencies || {}).map(normalizeDistributionName),
     );
 
-    // Lookup versions for each package (skip if already provided)
-    const dependencies: Record<string, string> = {};
-    for (const pkg of discoveredPackages) {
-      if (providedPackageNames.has(pkg)) {
+    const discoveredPackages = modules.map((moduleName) =>
+      this.getDistributionName(moduleName),
+    );
+    const pending = modules.filter((moduleName) => {
+      const distribution = this.getDistributionName(moduleName);
+      if (
+        providedPackageNames.has(normalizeDistributionName(distribution)) ||
+        providedPackageNames.has(normalizeDistributionName(moduleName))
+      ) {
         // Skip PyPI lookup if user already provided this package version
         console.log(
-          `Skipping PyPI lookup for "${pkg}" - version provided by user`,
+          `Skipping PyPI lookup for "${distribution}" - version provided by user`,
         );
-        continue;
+        return false;
       }
+      return true;
+    });
 
-      try {
-        dependencies[pkg] = await this.lookupPackageVersion(pkg);
-      } catch (error) {
-        console.warn(`Failed to resolve ${pkg}, using latest:`, error);
-        dependencies[pkg] = "*";
+    // The Kernel SDK is held to the supported range rather than looked up;
+    // the merge report checks that range against the registry
+    const isKernelSdk = (moduleName: string) =>
+      normalizeDistributionName(this.getDistributionName(moduleName)) ===
+      normalizeDistributionName(this.kernelSdk.package);
+    const lookups = pending.filter((moduleName) => !isKernelSdk(moduleName));
+
+    // Lookup versions concurrently; "unavailable" when a registry couldn't
+    // be reached, so a missing answer isn't mistaken for a missing package
+    const versions = await mapWithConcurrency(
+      lookups,
+      this.registry.concurrency,
+      async (moduleName) => {
+        try {
+          const releases = await this.searchReleases(
+            this.getDistributionName(moduleName),
+          );
+          return releases?.latest ?? null;
+        } catch {
+          return "unavailable" as const;
+        }
+      },
+    );
+
+    const unresolved: string[] = [];
+    const dependencies: Record<string, string> = {};
+    pending.forEach((moduleName) => {
+      const distribution = this.getDistributionName(moduleName);
+      const version = versions[lookups.indexOf(moduleName)];
+      if (isKernelSdk(moduleName)) {
+        dependencies[distribution] = this.kernelSdk.constraint;
+      } else if (version === "unavailable") {
+        // Registry unavailable, so keep the import with any version; the
+        // merge report lists it as unverified
+        dependencies[distribution] = "*";
+      } else if (version) {
+        dependencies[distribution] = `>=${version}`;
+      } else if (
+        hasDistributionMapping(moduleName, this.distributionMappings)
+      ) {
+        // Known distribution the registry doesn't list, use latest
+        dependencies[distribution] = "*";
+      } else {
+        // Unknown module, don't guess a package for it
+        unresolved.push(moduleName);
       }
-    }
+    });
 
-    return { discoveredPackages, dependencies };
+    // Optional imports are reported but never become hard requirements
+    const optionalPackages = optional.map((moduleName) =>
+      this.getDistributionName(moduleName),
+    );
+
+    return {
+      discoveredPackages,
+      dependencies,
+      unresolved,
+      optionalPackages,
+      localModules: local,
+    };
   }
 
   /**
@@ -311,20 +729,6 @@ export class PythonResolver implements LanguageResolver {
       .replace(/\.py$/, "")
       .replace(/[^a-zA-Z0-9_-]/g, "_");
 
-    // Helper function to ensure proper version constraint formatting
-    const formatDependency = (pkg: string, version: string): string => {
-      // If version already has a constraint operator, use it as-is
-      if (/^[><=~!]/.test(version) || version === "*") {
-        return `${pkg}${version}`;
-      }
-      // If it's a bare version number, add >= prefix
-      if (/^\d+\.\d+/.test(version)) {
-        return `${pkg}>=${version}`;
-      }
-      // Default fallback
-      return `${pkg}${version}`;
-    };
-
     const pyprojectToml = `[build-system]
 requires = ["setuptools>=61.0"]
 build-backend = "setuptools.build_meta"
@@ -337,7 +741,7 @@ readme = "README.md"
 requires-python = ">=3.8"
 dependencies = [
 ${Object.entries(dependencies)
-  .map(([pkg, version]) => `    "${formatDependency(pkg, version)}",`)
+  .map(([pkg, version]) => `    "${formatRequirement(pkg, version)}",`)
   .join("\n")}
 ]
 `;
@@ -366,6 +770,135 @@ python ${entrypointRelPath}
     };
   }
 
+  /**
+   * Point pip at the configured indexes through its environment variables
+   */
+  registryEnvironment(): Record<string, string> {
+    return pipIndexEnv(this.registry.registries.pip);
+  }
+
+  /**
+   * Read dependencies declared in a user-supplied pyproject.toml and/or
+   * requirements.txt
+   */
+  readDeclaredDependencies(
+    files: Record<string, string>,
+  ): Record<string, string> {
+    const declared: Record<string, string> = {};
+    for (const dependency of this.listDeclaredDependencies(files)) {
+      declared[dependency.package] = dependency.constraint;
+    }
+    return declared;
+  }
+
+  /**
+   * List requirements from requirements.txt and pyproject.toml with the
+   * manifest declaring each
+   */
+  listDeclaredDependencies(
+    files: Record<string, string>,
+  ): DeclaredDependency[] {
+    const sources: [string, Record<string, string> | null][] = [];
+    if (files["requirements.txt"] !== undefined) {
+      sources.push([
+        "requirements.txt",
+        readRequirementsTxt(files["requirements.txt"]),
+      ]);
+    }
+    if (files["pyproject.toml"] !== undefined) {
+      sources.push([
+        "pyproject.toml",
+        readPyprojectDependencies(files["pyproject.toml"]),
+      ]);
+    }
+    return sources.flatMap(([source, requirements]) =>
+      Object.entries(requirements ?? {}).map(([pkg, constraint]) => ({
+        package: pkg,
+        constraint,
+        source,
+      })),
+    );
+  }
+
+  /**
+   * Add missing dependencies to a user-supplied pyproject.toml, falling back
+   * to requirements.txt when pyproject.toml has no dependency table
+   * Requirements already declared are rewritten in place when their final
+   * constraint differs, e.g. a provided override; extras, markers and
+   * `requires-python` are preserved
+   */
+  mergeIntoManifests(
+    files: Record<string, string>,
+    dependencies: Record<string, string>,
+  ): ManifestMergeResult | null {
+    let pyproject = files["pyproject.toml"];
+    let requirementsTxt = files["requirements.txt"];
+    if (pyproject === undefined && requirementsTxt === undefined) {
+      return null;
+    }
+
+    const declared = new Set(
+      Object.keys(this.readDeclaredDependencies(files)).map(
+        normalizeDistributionName,
+      ),
+    );
+    const added: Record<string, string> = {};
+    const replacements: Record<string, string> = {};
+    for (const [pkg, version] of Object.entries(dependencies)) {
+      if (declared.has(normalizeDistributionName(pkg))) {
+        replacements[pkg] = version;
+      } else {
+        added[pkg] = version;
+      }
+    }
+
+    const changes: Record<string, ManifestUpdate> = {};
+    const change = (manifest: string) => {
+      changes[manifest] = changes[manifest] ?? { manifest, added: {} };
+      return changes[manifest];
+    };
+
+    if (pyproject !== undefined) {
+      const result = replaceInPyproject(pyproject, replacements);
+      if (Object.keys(result.replaced).length > 0) {
+        pyproject = result.text;
+        change("pyproject.toml").replaced = result.replaced;
+      }
+    }
+    if (requirementsTxt !== undefined) {
+      const result = replaceInRequirementsTxt(requirementsTxt, replacements);
+      if (Object.keys(result.replaced).length > 0) {
+        requirementsTxt = result.text;
+        change("requirements.txt").replaced = result.replaced;
+      }
+    }
+
+    if (Object.keys(added).length > 0) {
+      const mergedPyproject =
+        pyproject !== undefined && readPyprojectDependencies(pyproject) !== null
+          ? addToPyproject(pyproject, added)
+          : null;
+      if (mergedPyproject !== null) {
+        pyproject = mergedPyproject;
+        change("pyproject.toml").added = added;
+      } else {
+        requirementsTxt = addToRequirementsTxt(requirementsTxt ?? "", added);
+        change("requirements.txt").added = added;
+      }
+    }
+
+    const updated = Object.values(changes);
+    return {
+      files: Object.fromEntries(
+        updated.map(({ manifest }) => [
+          manifest,
+          manifest === "pyproject.toml" ? pyproject! : requirementsTxt!,
+        ]),
+      ),
+      updated,
+    };
+  }
+
   /**
    * Merge auto-discovered dependencies with provided dependencies
    * Provided dependencies take priority over auto-discovered ones
@@ -375,8 +908,12 @@ python ${entrypointRelPath}
     autoDependencies: Record<string, string>,
     providedDependencies?: Record<string, string>,
   ): Record<string, string> {
-    const normalizedProvidedDeps: Record<string, string> =
-      providedDependencies || {};
+    // Key provided dependencies by distribution name so that e.g. "yaml"
+    // and "PyYAML" refer to the same package
+    const normalizedProvidedDeps: Record<string, string> = {};
+    Object.entries(providedDependencies || {}).forEach(([pkg, version]) => {
+      normalizedProvidedDeps[this.getDistributionName(pkg)] = version;
+    });
 
     // Helper function to ensure version constraint for auto-discovered deps only
     const ensureVersionConstraint = (version: string): string => {
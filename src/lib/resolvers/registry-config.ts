@@ -0,0 +1,229 @@
+// Private npm registry and Python index configuration: picking the registry
+// for a package, authenticating lookups and configuring installs in the
+// deployed bundle
+// Credentials never go into the bundle: the .npmrc reads tokens from
+// environment variables, and pip reads its indexes from PIP_INDEX_URL and
+// PIP_EXTRA_INDEX_URL, all passed as the deployment's env vars
+
+import { createHash } from "crypto";
+import { NpmRegistryConfig, PipIndexConfig } from "./types";
+
+// Registry config files generated for a bundle, kept out of the manifest
+// contents a preview returns
+export const REGISTRY_CONFIG_FILES = [".npmrc"];
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+// Scopes may be given with or without the leading "@"
+function normalizeScope(scope: string): string {
+  return scope.startsWith("@") ? scope : `@${scope}`;
+}
+
+// npm keys per-registry settings by the URL without its protocol
+// ("https://npm.acme.dev/api" -> "//npm.acme.dev/api/")
+function nerfDart(url: string): string {
+  const parsed = new URL(url);
+  return `//${parsed.host}${trimSlash(parsed.pathname)}/`;
+}
+
+/**
+ * A registry URL with any embedded credentials removed, safe for logs
+ */
+export function withoutCredentials(url: string): string {
+  const parsed = new URL(url);
+  parsed.username = "";
+  parsed.password = "";
+  return trimSlash(parsed.toString());
+}
+
+/**
+ * Identify a registry in cache keys: its URL without credentials, plus a hash
+ * of any credential the lookup sends
+ * The registry cache is shared by every org, so results fetched with one
+ * org's credentials must never be found under another org's key
+ */
+export function registryCacheId(url: string, authorization?: string): string {
+  const parsed = new URL(url);
+  const credentials = [parsed.username, parsed.password, authorization ?? ""];
+  if (credentials.every((part) => !part)) {
+    return withoutCredentials(url);
+  }
+  const hash = createHash("sha256")
+    .update(credentials.join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+  return `${withoutCredentials(url)}#${hash}`;
+}
+
+// JSR serves its packages to npm clients under this scope
+const JSR_SCOPE = "@jsr";
+const JSR_NPM_REGISTRY_URL = "https://npm.jsr.io";
+
+/**
+ * Add JSR's npm registry for the @jsr scope unless a registry is already
+ * configured for it
+ */
+export function withJsrScope(
+  config: NpmRegistryConfig = {},
+): NpmRegistryConfig {
+  const scopes = config.scopes ?? {};
+  if (
+    Object.keys(scopes).some((scope) => normalizeScope(scope) === JSR_SCOPE)
+  ) {
+    return config;
+  }
+  return {
+    ...config,
+    scopes: { ...scopes, [JSR_SCOPE]: JSR_NPM_REGISTRY_URL },
+  };
+}
+
+/**
+ * Registry that serves a package, honoring scope mappings
+ */
+export function npmRegistryForPackage(
+  packageName: string,
+  defaultRegistryUrl: string,
+  config?: NpmRegistryConfig,
+): string {
+  if (packageName.startsWith("@")) {
+    const scope = packageName.split("/")[0];
+    for (const [configured, url] of Object.entries(config?.scopes ?? {})) {
+      if (normalizeScope(configured) === scope) {
+        return trimSlash(url);
+      }
+    }
+  }
+  return trimSlash(config?.registryUrl ?? defaultRegistryUrl);
+}
+
+/**
+ * Authorization headers for requests to an npm registry
+ * A token applies to its registry URL and everything below it
+ */
+export function npmAuthHeaders(
+  registryUrl: string,
+  config?: NpmRegistryConfig,
+): Record<string, string> {
+  const target = nerfDart(registryUrl);
+  let match: { prefix: string; token: string } | null = null;
+  for (const [url, token] of Object.entries(config?.authTokens ?? {})) {
+    const prefix = nerfDart(url);
+    if (
+      target.startsWith(prefix) &&
+      (!match || prefix.length > match.prefix.length)
+    ) {
+      match = { prefix, token };
+    }
+  }
+  return match ? { Authorization: `Bearer ${match.token}` } : {};
+}
+
+/**
+ * Environment variable the rendered .npmrc reads a registry's token from
+ * ("https://npm.acme.dev/api" -> "NPM_TOKEN_NPM_ACME_DEV_API")
+ */
+export function npmTokenEnvName(registryUrl: string): string {
+  const id = nerfDart(registryUrl)
+    .replace(/[^a-z0-9]+/gi, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+  return `NPM_TOKEN_${id}`;
+}
+
+/**
+ * Render an .npmrc for the configured registries, or null if none are set
+ * Tokens are referenced as environment variables; see npmRegistryEnv
+ */
+export function renderNpmrc(config?: NpmRegistryConfig): string | null {
+  const lines: string[] = [];
+  if (config?.registryUrl) {
+    lines.push(`registry=${withoutCredentials(config.registryUrl)}/`);
+  }
+  for (const [scope, url] of Object.entries(config?.scopes ?? {})) {
+    lines.push(`${normalizeScope(scope)}:registry=${withoutCredentials(url)}/`);
+  }
+  for (const url of Object.keys(config?.authTokens ?? {})) {
+    lines.push(`${nerfDart(url)}:_authToken=\${${npmTokenEnvName(url)}}`);
+  }
+  return lines.length > 0 ? `${lines.join("\n")}\n` : null;
+}
+
+/**
+ * Environment variables holding the tokens the rendered .npmrc references
+ */
+export function npmRegistryEnv(
+  config?: NpmRegistryConfig,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(config?.authTokens ?? {}).map(([url, token]) => [
+      npmTokenEnvName(url),
+      token,
+    ]),
+  );
+}
+
+/**
+ * Environment variables pointing pip at the configured indexes
+ * Index URLs may embed credentials, so they aren't written to any file
+ */
+export function pipIndexEnv(config?: PipIndexConfig): Record<string, string> {
+  const extraIndexUrls = config?.extraIndexUrls ?? [];
+  return {
+    ...(config?.indexUrl && { PIP_INDEX_URL: config.indexUrl }),
+    ...(extraIndexUrls.length > 0 && {
+      PIP_EXTRA_INDEX_URL: extraIndexUrls.join(" "),
+    }),
+  };
+}
+
+// Archive suffixes of source distributions on a simple index
+const SDIST_SUFFIX = /\.(?:tar\.gz|tar\.bz2|tar\.xz|zip|tgz)$/i;
+
+/**
+ * Version encoded in a distribution filename, or null if it isn't one
+ * Wheels are `name-version-tags.whl`, sdists are `name-version.tar.gz`
+ */
+function versionFromFilename(filename: string): string | null {
+  if (filename.endsWith(".whl")) {
+    return filename.split("-")[1] ?? null;
+  }
+  if (SDIST_SUFFIX.test(filename)) {
+    const stem = filename.replace(SDIST_SUFFIX, "");
+    const dash = stem.lastIndexOf("-");
+    return dash === -1 ? null : stem.slice(dash + 1);
+  }
+  return null;
+}
+
+/**
+ * Versions listed on a PEP 503 (HTML) or PEP 691 (JSON) simple index page
+ * Yanked files are ignored
+ */
+export function parseSimpleIndexVersions(
+  contentType: string,
+  body: string,
+): string[] {
+  const versions = new Set<string>();
+
+  if (contentType.includes("json")) {
+    const data = JSON.parse(body);
+    for (const file of data.files ?? []) {
+      const version =
+        !file.yanked && typeof file.filename === "string"
+          ? versionFromFilename(file.filename)
+          : null;
+      if (version) versions.add(version);
+    }
+    return Array.from(versions);
+  }
+
+  const anchorPattern = /<a\b([^>]*)>([^<]+)<\/a>/gi;
+  let match;
+  while ((match = anchorPattern.exec(body)) !== null) {
+    if (/data-yanked/i.test(match[1])) continue;
+    const version = versionFromFilename(match[2].trim());
+    if (version) versions.add(version);
+  }
+  return Array.from(versions);
+}
@@ -3,23 +3,124 @@
 export interface DependencyInfo {
   discoveredPackages: string[];
   dependencies: Record<string, string>;
+  // Packages only needed at type-check time (e.g. `import type`)
+  devDependencies?: Record<string, string>;
+  // Imported modules that could not be matched to a registry package
+  unresolved?: string[];
+  // Packages imported only where a failed import is tolerated, or only for
+  // type checking
+  optionalPackages?: string[];
+  // Imports satisfied by other files in the bundle
+  localModules?: string[];
 }
 
 export interface ProjectFiles {
   [filename: string]: string;
 }
 
+// Dependencies added to a manifest the user supplied
+export interface ManifestUpdate {
+  manifest: string;
+  added: Record<string, string>;
+  // Declared dependencies rewritten with a new constraint, such as a
+  // provided override
+  replaced?: Record<string, string>;
+}
+
+export interface ManifestMergeResult {
+  // Manifests rewritten with the added and replaced dependencies
+  files: ProjectFiles;
+  updated: ManifestUpdate[];
+}
+
+// A version constraint and where it was declared
+export interface VersionConstraint {
+  // "provided", "pins" or a manifest like "package.json#dependencies"
+  source: string;
+  constraint: string;
+}
+
+// A dependency declared by a manifest in the bundle
+export interface DeclaredDependency extends VersionConstraint {
+  package: string;
+}
+
+// Whether a constraint can be checked against published versions
+export type ConstraintCheck = "checkable" | "unchecked" | "invalid";
+
+// Package naming and version constraint semantics of an ecosystem
+export interface VersionScheme {
+  // Key under which two names refer to the same package
+  normalizeName(name: string): string;
+  classify(constraint: string): ConstraintCheck;
+  // Highest version satisfying every constraint, or null if none does
+  maxSatisfying(versions: string[], constraints: string[]): string | null;
+  // Constraint that allows exactly one version
+  exact(version: string): string;
+}
+
+// A provided version that replaced an auto-discovered one
+export interface DependencyOverride {
+  package: string;
+  discovered: string;
+  provided: string;
+}
+
+// A package constrained by more than one source
+export interface DependencyConflict {
+  package: string;
+  constraints: VersionConstraint[];
+  // Highest version satisfying all of them
+  resolved: string;
+}
+
+export interface MergeReport {
+  overrides: DependencyOverride[];
+  conflicts: DependencyConflict[];
+  // Exact version each dependency resolves to today
+  pinned: Record<string, string>;
+  // Packages whose constraints could not be checked against the registry
+  unverified: string[];
+  // Problems that don't block the deploy, such as an unsupported SDK version
+  warnings: string[];
+}
+
+// The Kernel SDK package an app needs and the versions the platform supports
+export interface KernelSdkRequirement {
+  package: string;
+  constraint: string;
+}
+
 export interface LanguageResolver {
+  // Package naming and version constraint semantics
+  readonly versionScheme: VersionScheme;
+
+  // Kernel SDK every app in this language depends on
+  readonly kernelSdk: KernelSdkRequirement;
+
   // Extract package names from import/require statements
   extractImports(code: string): string[];
 
   // Lookup package version from registry
   lookupPackageVersion(packageName: string): Promise<string>;
 
+  // List published versions of a package, or null if the registry can't
+  // provide them
+  listPackageVersions(packageName: string): Promise<string[] | null>;
+
+  // License (usually an SPDX expression) a version of a package declares, or
+  // null if the registry doesn't report one; the latest version if null
+  lookupPackageLicense(
+    packageName: string,
+    version: string | null,
+  ): Promise<string | null>;
+
   // Resolve all dependencies for a source file
   resolveDependencies(
     code: string,
     providedDependencies?: Record<string, string>,
+    filename?: string,
+    context?: BundleContext,
   ): Promise<DependencyInfo>;
 
   // Generate project configuration files
@@ -27,13 +128,168 @@ export interface LanguageResolver {
     filename: string,
     entrypointRelPath: string,
     dependencies: Record<string, string>,
+    devDependencies?: Record<string, string>,
+    context?: BundleContext,
   ): ProjectFiles;
 
+  // Environment variables carrying the registry credentials installs need,
+  // kept out of the generated files
+  registryEnvironment(): Record<string, string>;
+
+  // Read dependencies already declared by manifests in the bundle
+  readDeclaredDependencies(
+    files: Record<string, string>,
+  ): Record<string, string>;
+
+  // Every declared dependency along with the manifest declaring it
+  listDeclaredDependencies(files: Record<string, string>): DeclaredDependency[];
+
+  // Add dependencies to manifests already present in the bundle, rewriting
+  // declared ones whose constraint differs
+  // Returns null when the bundle has no manifest to merge into
+  mergeIntoManifests(
+    files: Record<string, string>,
+    dependencies: Record<string, string>,
+    devDependencies?: Record<string, string>,
+  ): ManifestMergeResult | null;
+
   // Merge auto-discovered and user-provided dependencies
   mergeDependencies(
     autoDependencies: Record<string, string>,
     providedDependencies?: Record<string, string>,
   ): Record<string, string>;
+
+  // Version pins written inline in import specifiers (`zod@3.23`)
+  listImportPins(files: Record<string, string>): DeclaredDependency[];
+
+  // Find Kernel apps and actions defined by a source file
+  extractAppDefinitions(code: string, filename: string): AppDefinitions;
+}
+
+// A Kernel app created in a source file, e.g. `kernel.app("my-app")`
+export interface AppDefinition {
+  name: string;
+  // Variable the app is assigned to, if any
+  variable: string | null;
+  line: number;
+}
+
+// An action registered on an app, e.g. `app.action("scrape", handler)`
+export interface ActionDefinition {
+  // Null when the action name isn't a string literal
+  name: string | null;
+  // Variable the action is registered on, or the app name for chained calls
+  // such as `kernel.app("x").action(...)`
+  receiver: { variable: string } | { app: string };
+  line: number;
+  // Handler function name, when it is a named function
+  handler: string | null;
+  // Payload and return type annotations as written in the source
+  payloadType: string | null;
+  outputType: string | null;
+}
+
+// App and action definitions found in one source file
+export interface AppDefinitions {
+  apps: AppDefinition[];
+  actions: ActionDefinition[];
+}
+
+// An action a deployment makes invocable
+export interface AppActionInfo {
+  name: string;
+  app: string | null;
+  file: string;
+  line: number;
+  handler: string | null;
+  payloadType: string | null;
+  outputType: string | null;
+}
+
+// Apps and actions found across a bundle
+export interface AppManifest {
+  // The app the bundle deploys, or null when none was found
+  appName: string | null;
+  apps: (Omit<AppDefinition, "variable"> & { file: string })[];
+  actions: AppActionInfo[];
+  warnings: string[];
+}
+
+// How an import specifier is used by the source file
+export type ImportKind = "runtime" | "type" | "dynamic";
+
+// An import specifier with a registry prefix or inline version pin, e.g.
+// `npm:zod@3.23` or `jsr:@std/path@^1/posix`
+export interface RegistrySpecifier {
+  registry: "npm" | "jsr";
+  // Name the bundled source imports and the dependency is keyed by
+  packageName: string;
+  // npm package the dependency installs (`@jsr/std__path` for `@std/path`)
+  installName: string;
+  // Inline version pin, or null when the specifier has none
+  version: string | null;
+  // Specifier to write in the bundled source (`zod`, `@std/path/posix`)
+  rewritten: string;
+}
+
+export interface ImportReference {
+  specifier: string;
+  packageName: string;
+  kind: ImportKind;
+  // Set when the specifier has a registry prefix or version pin
+  registrySpecifier?: RegistrySpecifier;
+}
+
+// Private npm registry settings
+export interface NpmRegistryConfig {
+  // Registry for unscoped packages
+  registryUrl?: string;
+  // Scope (e.g. "@acme") -> registry URL
+  scopes?: Record<string, string>;
+  // Registry URL -> auth token
+  authTokens?: Record<string, string>;
+}
+
+// Private Python package index settings
+export interface PipIndexConfig {
+  // Replaces PyPI, as with pip's --index-url
+  indexUrl?: string;
+  // Searched after the main index, as with pip's --extra-index-url
+  extraIndexUrls?: string[];
+}
+
+export interface RegistryConfig {
+  npm?: NpmRegistryConfig;
+  pip?: PipIndexConfig;
+}
+
+// Registry lookup settings shared by the resolvers
+export interface ResolverOptions {
+  // Base URL of the npm registry (defaults to NPM_REGISTRY_URL or npmjs.org)
+  npmRegistryUrl?: string;
+  // Base URL of the PyPI JSON API (defaults to PYPI_REGISTRY_URL or pypi.org)
+  pypiUrl?: string;
+  // Maximum registry requests in flight per file
+  concurrency?: number;
+  // Per-request timeout in milliseconds
+  timeoutMs?: number;
+  // How long successful lookups are cached
+  cacheTtlSeconds?: number;
+  // Private registries and indexes, also configured for the deployed bundle
+  registries?: RegistryConfig;
+}
+
+// tsconfig.json module aliasing options
+export interface PathAliases {
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+}
+
+// The complete set of files being bundled, so imports of bundle modules are
+// not mistaken for registry packages
+export interface BundleContext {
+  files: Record<string, string>;
+  pathAliases?: PathAliases;
 }
 
 export interface DeploymentConfig {
@@ -43,7 +299,7 @@ export interface DeploymentConfig {
   dependencies?: Record<string, string>;
 }
 
-export type SupportedLanguage = "typescript" | "python";
+export type SupportedLanguage = "typescript" | "javascript" | "python";
 
 // Language detection utilities
 export function detectLanguage(filename: string): SupportedLanguage {
@@ -53,6 +309,11 @@ export function detectLanguage(filename: string): SupportedLanguage {
     case "ts":
     case "tsx":
       return "typescript";
+    case "js":
+    case "jsx":
+    case "mjs":
+    case "cjs":
+      return "javascript";
     case "py":
       return "python";
     default:
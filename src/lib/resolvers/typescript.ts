@@ -1,103 +1,991 @@
 import builtinModules from "builtin-modules";
-import { LanguageResolver, DependencyInfo, ProjectFiles } from "./types";
+import ts from "typescript";
+import {
+  LanguageResolver,
+  DependencyInfo,
+  ProjectFiles,
+  ImportKind,
+  ImportReference,
+  BundleContext,
+  ManifestMergeResult,
+  ManifestUpdate,
+  ResolverOptions,
+  DeclaredDependency,
+  VersionScheme,
+  AppDefinitions,
+  NpmRegistryConfig,
+  RegistrySpecifier,
+  KernelSdkRequirement,
+} from "./types";
+import { isLocalTypeScriptSpecifier } from "./local-modules";
+import { npmVersionScheme } from "./version-schemes";
+import {
+  RegistrySettings,
+  cachedRegistryLookup,
+  fetchRegistryJson,
+  getRegistrySettings,
+  mapWithConcurrency,
+} from "./registry";
+import {
+  npmAuthHeaders,
+  npmRegistryEnv,
+  npmRegistryForPackage,
+  registryCacheId,
+  renderNpmrc,
+  withJsrScope,
+} from "./registry-config";
+import { dependencyVersionFor, parseRegistrySpecifier } from "./npm-specifiers";
+import { NPM_KERNEL_SDK } from "./kernel-sdk";
 
 // Node.js built-in modules (don't need to be in package.json)
 const NODE_BUILTINS = new Set(builtinModules);
 
+// Map a module specifier to its npm package name, or null for local/built-in modules
+function toPackageName(spec: string): string | null {
+  // Skip relative imports, absolute paths, and Node.js built-ins
+  if (
+    spec.startsWith(".") ||
+    spec.startsWith("/") ||
+    spec.startsWith("node:") ||
+    NODE_BUILTINS.has(spec) ||
+    NODE_BUILTINS.has(spec.split("/")[0])
+  ) {
+    return null;
+  }
+
+  // npm:/jsr: specifiers and inline version pins (npm:zod@3.23 -> zod)
+  const registrySpecifier = parseRegistrySpecifier(spec);
+  if (registrySpecifier) {
+    return registrySpecifier.packageName;
+  }
+  // Other protocols (bun:sqlite, https://...) aren't registry packages
+  if (/^[a-z][a-z0-9+.-]*:/i.test(spec)) {
+    return null;
+  }
+
+  // Handle scoped packages (e.g., @onkernel/sdk/foo -> @onkernel/sdk)
+  return spec.startsWith("@")
+    ? spec.split("/").slice(0, 2).join("/")
+    : spec.split("/")[0];
+}
+
+// package.json fields that declare dependencies
+const PACKAGE_JSON_DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+] as const;
+
+// Parse a user-supplied package.json, or null if there isn't a valid one
+function parsePackageJson(
+  files: Record<string, string>,
+): Record<string, any> | null {
+  const text = files["package.json"];
+  if (text === undefined) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch (error) {
+    throw new Error(`Invalid package.json in bundle: ${error}`);
+  }
+}
+
+// Whether every binding in an import clause is type-only
+function isTypeOnlyImportClause(clause: ts.ImportClause): boolean {
+  if (clause.isTypeOnly) {
+    return true;
+  }
+  if (clause.name) {
+    return false;
+  }
+  const bindings = clause.namedBindings;
+  if (!bindings || !ts.isNamedImports(bindings)) {
+    return false;
+  }
+  return (
+    bindings.elements.length > 0 &&
+    bindings.elements.every((element) => element.isTypeOnly)
+  );
+}
+
+// Whether an export declaration only re-exports types
+function isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+  if (node.isTypeOnly) {
+    return true;
+  }
+  const clause = node.exportClause;
+  return (
+    !!clause &&
+    ts.isNamedExports(clause) &&
+    clause.elements.length > 0 &&
+    clause.elements.every((element) => element.isTypeOnly)
+  );
+}
+
+// String value of a literal module specifier, if it is one
+function literalText(node: ts.Node | undefined): string | null {
+  if (
+    node &&
+    (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))
+  ) {
+    return node.text;
+  }
+  return null;
+}
+
+// Parser mode for a source file, so JSX and JavaScript files parse correctly
+function scriptKindFor(filename: string): ts.ScriptKind {
+  if (/\.tsx$/i.test(filename)) return ts.ScriptKind.TSX;
+  if (/\.jsx$/i.test(filename)) return ts.ScriptKind.JSX;
+  if (/\.[cm]?js$/i.test(filename)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+// Node.js globals that only type-check with @types/node installed
+const NODE_GLOBALS = new Set([
+  "process",
+  "Buffer",
+  "__dirname",
+  "__filename",
+  "require",
+  "module",
+  "exports",
+  "global",
+]);
+
+const TYPESCRIPT_SOURCE = /\.(?:[cm]?ts|tsx)$/;
+
+// Relative imports written with a TypeScript extension (import "./x.ts")
+const TS_EXTENSION_IMPORT =
+  /(?:from|import\s*\(|require\s*\()\s*["']\.{1,2}\/[^"']*\.[cm]?tsx?["']/;
+
+// The DefinitelyTyped package for a package (@scope/pkg -> @types/scope__pkg)
+function typesPackageName(packageName: string): string {
+  return `@types/${packageName.replace(/^@/, "").replace("/", "__")}`;
+}
+
+// Whether an identifier is a reference rather than a declared or member name
+function isReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (
+    (ts.isPropertyAccessExpression(parent) ||
+      ts.isQualifiedName(parent) ||
+      ts.isPropertyAssignment(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isVariableDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isFunctionDeclaration(parent) ||
+      ts.isImportSpecifier(parent) ||
+      ts.isExportSpecifier(parent)) &&
+    (parent as { name?: ts.Node }).name === node
+  ) {
+    return false;
+  }
+  return !(ts.isQualifiedName(parent) && parent.right === node);
+}
+
+/**
+ * The include patterns, JSX setting and import style a generated tsconfig
+ * needs to cover the TypeScript files in a bundle
+ */
+function describeTypeScriptLayout(
+  files: Record<string, string>,
+  entrypointRelPath: string,
+): { include: string[]; jsx: boolean; tsExtensionImports: boolean } {
+  const sources = Object.keys(files).filter((file) =>
+    TYPESCRIPT_SOURCE.test(file),
+  );
+  if (!sources.includes(entrypointRelPath)) {
+    sources.push(entrypointRelPath);
+  }
+
+  // Root files are matched by extension, directories recursively
+  const rootPatterns = new Set<string>();
+  const directories = new Set<string>();
+  for (const file of sources) {
+    const normalized = file.replace(/^\.\//, "");
+    const slash = normalized.indexOf("/");
+    if (slash === -1) {
+      rootPatterns.add(`*${normalized.slice(normalized.lastIndexOf("."))}`);
+    } else {
+      directories.add(`${normalized.slice(0, slash)}/**/*`);
+    }
+  }
+
+  return {
+    include: [
+      ...Array.from(rootPatterns).sort(),
+      ...Array.from(directories).sort(),
+    ],
+    jsx: sources.some((file) => file.endsWith(".tsx")),
+    tsExtensionImports: sources.some((file) =>
+      TS_EXTENSION_IMPORT.test(files[file] ?? ""),
+    ),
+  };
+}
+
+// A function that can be registered as an action handler
+type HandlerFunction =
+  | ts.FunctionDeclaration
+  | ts.FunctionExpression
+  | ts.ArrowFunction
+  | ts.MethodDeclaration;
+
+function isHandlerFunction(node: ts.Node): node is HandlerFunction {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node)
+  );
+}
+
+// The app name of a `<kernel>.app("name")` call, or null for any other node
+function appDefinitionName(node: ts.Node): string | null {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    node.expression.name.text === "app"
+  ) {
+    return literalText(node.arguments[0]);
+  }
+  return null;
+}
+
 export class TypeScriptResolver implements LanguageResolver {
+  readonly versionScheme: VersionScheme = npmVersionScheme;
+  readonly kernelSdk: KernelSdkRequirement = NPM_KERNEL_SDK;
+  protected readonly registry: RegistrySettings;
+  // Registry settings for lookups, which can also reach JSR packages
+  private readonly npmLookupConfig: NpmRegistryConfig;
+
+  constructor(options: ResolverOptions = {}) {
+    this.registry = getRegistrySettings(options);
+    this.npmLookupConfig = withJsrScope(this.registry.registries.npm);
+  }
+
+  /**
+   * Parse a source file and classify every module specifier it references
+   * Only real import syntax is considered; comments and strings are ignored
+   */
+  extractImportReferences(
+    code: string,
+    filename: string = "index.ts",
+  ): ImportReference[] {
+    const scriptKind = scriptKindFor(filename);
+    const sourceFile = ts.createSourceFile(
+      filename,
+      code,
+      ts.ScriptTarget.Latest,
+      false,
+      scriptKind,
+    );
+
+    const references: ImportReference[] = [];
+    const add = (specifier: string | null, kind: ImportKind) => {
+      if (!specifier) return;
+      const packageName = toPackageName(specifier);
+      if (packageName) {
+        const registrySpecifier = parseRegistrySpecifier(specifier);
+        references.push({
+          specifier,
+          packageName,
+          kind,
+          ...(registrySpecifier && { registrySpecifier }),
+        });
+      }
+    };
+
+    // /// <reference types="..." /> directives
+    for (const ref of sourceFile.typeReferenceDirectives) {
+      add(ref.fileName, "type");
+    }
+
+    const visit = (node: ts.Node) => {
+      if (ts.isImportDeclaration(node)) {
+        // import x from 'pkg', import type { X } from 'pkg', import 'pkg'
+        const clause = node.importClause;
+        add(
+          literalText(node.moduleSpecifier),
+          clause && isTypeOnlyImportClause(clause) ? "type" : "runtime",
+        );
+      } else if (ts.isExportDeclaration(node)) {
+        // export { x } from 'pkg', export * from 'pkg'
+        add(
+          literalText(node.moduleSpecifier),
+          isTypeOnlyExport(node) ? "type" : "runtime",
+        );
+      } else if (
+        ts.isImportEqualsDeclaration(node) &&
+        ts.isExternalModuleReference(node.moduleReference)
+      ) {
+        // import x = require('pkg')
+        add(
+          literalText(node.moduleReference.expression),
+          node.isTypeOnly ? "type" : "runtime",
+        );
+      } else if (ts.isImportTypeNode(node)) {
+        // typeof import('pkg') in type positions
+        const argument = node.argument;
+        if (ts.isLiteralTypeNode(argument)) {
+          add(literalText(argument.literal), "type");
+        }
+      } else if (ts.isCallExpression(node)) {
+        const [firstArg] = node.arguments;
+        if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+          // import('pkg')
+          add(literalText(firstArg), "dynamic");
+        } else if (
+          ts.isIdentifier(node.expression) &&
+          node.expression.text === "require" &&
+          node.arguments.length === 1
+        ) {
+          // require('pkg')
+          add(literalText(firstArg), "runtime");
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return references;
+  }
+
   /**
-   * Extract package names from TypeScript import statements
+   * Split packages into runtime and type-only sets
+   * A package used at runtime anywhere in the file is never type-only
+   * Specifiers that resolve to bundle files via tsconfig aliases are local
    */
-  extractImports(code: string): string[] {
-    const imports = new Set<string>();
+  classifyPackages(
+    code: string,
+    filename?: string,
+    context?: BundleContext,
+  ): {
+    runtime: string[];
+    typeOnly: string[];
+    local: string[];
+    // Registry prefixes and version pins, by package name
+    registrySpecifiers: Record<string, RegistrySpecifier>;
+  } {
+    const runtime = new Set<string>();
+    const typeOnly = new Set<string>();
+    const local = new Set<string>();
+    const registrySpecifiers: Record<string, RegistrySpecifier> = {};
+    for (const ref of this.extractImportReferences(code, filename)) {
+      const registrySpecifier = ref.registrySpecifier;
+      // A pinned import wins over an unpinned one of the same package
+      if (
+        registrySpecifier &&
+        (registrySpecifier.version ||
+          !registrySpecifiers[ref.packageName]?.version)
+      ) {
+        registrySpecifiers[ref.packageName] = registrySpecifier;
+      }
+      if (isLocalTypeScriptSpecifier(ref.specifier, context)) {
+        local.add(ref.specifier);
+      } else if (ref.kind === "type") {
+        typeOnly.add(ref.packageName);
+      } else {
+        runtime.add(ref.packageName);
+      }
+    }
+    runtime.forEach((pkg) => typeOnly.delete(pkg));
+    return {
+      runtime: Array.from(runtime),
+      typeOnly: Array.from(typeOnly),
+      local: Array.from(local),
+      registrySpecifiers,
+    };
+  }
+
+  /**
+   * Rewrite registry-prefixed and version-pinned import specifiers to plain
+   * package imports (`npm:zod@3.23` -> `zod`), so the bundled source runs
+   * under bun; the pins move to package.json
+   * Returns the code unchanged when it has no such specifiers
+   */
+  rewriteImportSpecifiers(code: string, filename: string = "index.ts"): string {
+    const sourceFile = ts.createSourceFile(
+      filename,
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      scriptKindFor(filename),
+    );
 
-    // Regex patterns for different import styles
-    const patterns = [
-      // import ... from 'pkg'
-      /import\s+(?:[\w\s{},*]+\s+from\s+)?['"`]([^'"`]+)['"`]/g,
-      // import('pkg')
-      /import\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
-      // require('pkg')
-      /require\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
-    ];
+    const replacements: { start: number; end: number; text: string }[] = [];
+    const rewrite = (node: ts.Node | undefined) => {
+      const specifier = literalText(node);
+      if (!node || specifier === null || toPackageName(specifier) === null) {
+        return;
+      }
+      const registrySpecifier = parseRegistrySpecifier(specifier);
+      if (registrySpecifier) {
+        // Keep the original quotes
+        replacements.push({
+          start: node.getStart(sourceFile) + 1,
+          end: node.getEnd() - 1,
+          text: registrySpecifier.rewritten,
+        });
+      }
+    };
 
-    for (const pattern of patterns) {
-      let match;
-      while ((match = pattern.exec(code)) !== null) {
-        const spec = match[1];
+    const visit = (node: ts.Node) => {
+      if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+        rewrite(node.moduleSpecifier);
+      } else if (
+        ts.isImportEqualsDeclaration(node) &&
+        ts.isExternalModuleReference(node.moduleReference)
+      ) {
+        rewrite(node.moduleReference.expression);
+      } else if (
+        ts.isImportTypeNode(node) &&
+        ts.isLiteralTypeNode(node.argument)
+      ) {
+        rewrite(node.argument.literal);
+      } else if (
+        ts.isCallExpression(node) &&
+        (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+          (ts.isIdentifier(node.expression) &&
+            node.expression.text === "require"))
+      ) {
+        rewrite(node.arguments[0]);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
 
-        // Skip relative imports, absolute paths, and Node.js built-ins
+    return replacements
+      .sort((a, b) => b.start - a.start)
+      .reduce(
+        (text, { start, end, text: replacement }) =>
+          text.slice(0, start) + replacement + text.slice(end),
+        code,
+      );
+  }
+
+  /**
+   * Version pins written inline in npm import specifiers across the bundle
+   * JSR pins aren't listed; their versions can't be checked against npm
+   */
+  listImportPins(files: Record<string, string>): DeclaredDependency[] {
+    const pins: DeclaredDependency[] = [];
+    for (const [filename, code] of Object.entries(files)) {
+      if (
+        !/\.(?:[cm]?[jt]s|[jt]sx)$/.test(filename) ||
+        filename.endsWith(".d.ts")
+      ) {
+        continue;
+      }
+      const seen = new Set<string>();
+      for (const ref of this.extractImportReferences(code, filename)) {
+        const pinned = ref.registrySpecifier;
         if (
-          !spec.startsWith(".") &&
-          !spec.startsWith("/") &&
-          !NODE_BUILTINS.has(spec) &&
-          !NODE_BUILTINS.has(spec.split("/")[0])
+          pinned?.registry === "npm" &&
+          pinned.version &&
+          !seen.has(`${pinned.packageName}@${pinned.version}`)
         ) {
-          // Handle scoped packages (e.g., @onkernel/sdk -> @onkernel/sdk)
-          const pkgName = spec.startsWith("@")
-            ? spec.split("/").slice(0, 2).join("/")
-            : spec.split("/")[0];
-          imports.add(pkgName);
+          seen.add(`${pinned.packageName}@${pinned.version}`);
+          pins.push({
+            package: pinned.packageName,
+            source: `${filename} (import)`,
+            constraint: pinned.version,
+          });
         }
       }
     }
+    return pins;
+  }
+
+  /**
+   * Extract package names needed at runtime from TypeScript import statements
+   */
+  extractImports(code: string, filename?: string): string[] {
+    return this.classifyPackages(code, filename).runtime;
+  }
+
+  /**
+   * Whether a file imports Node.js built-ins or uses Node.js globals such as
+   * `process` and `Buffer`, so it needs @types/node to type-check
+   */
+  usesNodeApis(code: string, filename: string = "index.ts"): boolean {
+    const sourceFile = ts.createSourceFile(
+      filename,
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      scriptKindFor(filename),
+    );
 
-    return Array.from(imports);
+    let uses = false;
+    const visit = (node: ts.Node) => {
+      if (uses) return;
+      const specifier =
+        ts.isImportDeclaration(node) || ts.isExportDeclaration(node)
+          ? literalText(node.moduleSpecifier)
+          : null;
+      if (
+        specifier &&
+        (specifier.startsWith("node:") ||
+          NODE_BUILTINS.has(specifier.split("/")[0]))
+      ) {
+        uses = true;
+      } else if (
+        ts.isIdentifier(node) &&
+        NODE_GLOBALS.has(node.text) &&
+        isReference(node)
+      ) {
+        uses = true;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return uses;
+  }
+
+  /**
+   * Find Kernel apps (`kernel.app("name")`) and the actions registered on them,
+   * either by call (`app.action("name", handler)`) or as a method decorator
+   * (`@app.action("name")`)
+   */
+  extractAppDefinitions(
+    code: string,
+    filename: string = "index.ts",
+  ): AppDefinitions {
+    const sourceFile = ts.createSourceFile(
+      filename,
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      scriptKindFor(filename),
+    );
+    const lineOf = (node: ts.Node) =>
+      sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line +
+      1;
+
+    // Named functions, so handlers passed by name can be inspected
+    const functions = new Map<string, HandlerFunction>();
+    const collectFunctions = (node: ts.Node) => {
+      if (ts.isFunctionDeclaration(node) && node.name) {
+        functions.set(node.name.text, node);
+      } else if (
+        ts.isVariableDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        node.initializer &&
+        isHandlerFunction(node.initializer)
+      ) {
+        functions.set(node.name.text, node.initializer);
+      }
+      ts.forEachChild(node, collectFunctions);
+    };
+    collectFunctions(sourceFile);
+
+    const apps: AppDefinitions["apps"] = [];
+    const actions: AppDefinitions["actions"] = [];
+
+    const visit = (node: ts.Node) => {
+      const appName = appDefinitionName(node);
+      if (appName !== null) {
+        // const app = kernel.app("name"), or app = kernel.app("name")
+        const parent = node.parent;
+        let variable: string | null = null;
+        if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+          variable = parent.name.text;
+        } else if (
+          ts.isBinaryExpression(parent) &&
+          parent.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          ts.isIdentifier(parent.left)
+        ) {
+          variable = parent.left.text;
+        }
+        apps.push({ name: appName, variable, line: lineOf(node) });
+      }
+
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.name.text === "action"
+      ) {
+        const target = node.expression.expression;
+        const chainedApp = appDefinitionName(target);
+        const receiver = ts.isIdentifier(target)
+          ? { variable: target.text }
+          : chainedApp !== null
+            ? { app: chainedApp }
+            : null;
+
+        if (receiver) {
+          // The handler is the second argument, or the decorated method
+          const handlerArg = node.arguments[1];
+          let handler: HandlerFunction | undefined;
+          if (
+            ts.isDecorator(node.parent) &&
+            isHandlerFunction(node.parent.parent)
+          ) {
+            handler = node.parent.parent;
+          } else if (handlerArg && isHandlerFunction(handlerArg)) {
+            handler = handlerArg;
+          } else if (handlerArg && ts.isIdentifier(handlerArg)) {
+            handler = functions.get(handlerArg.text);
+          }
+
+          const handlerName =
+            handler?.name && ts.isIdentifier(handler.name)
+              ? handler.name.text
+              : handlerArg && ts.isIdentifier(handlerArg)
+                ? handlerArg.text
+                : null;
+          // `app.action<Input, Output>(...)` types apply when the handler
+          // doesn't annotate its own
+          const [inputTypeArg, outputTypeArg] = node.typeArguments ?? [];
+          const payloadType =
+            handler?.parameters[1]?.type ?? inputTypeArg ?? null;
+          const outputType = handler?.type ?? outputTypeArg ?? null;
+
+          actions.push({
+            name: literalText(node.arguments[0]),
+            receiver,
+            line: lineOf(node),
+            handler: handlerName,
+            payloadType: payloadType?.getText(sourceFile) ?? null,
+            outputType: outputType?.getText(sourceFile) ?? null,
+          });
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return { apps, actions };
+  }
+
+  /**
+   * Identify a registry in cache keys along with the token sent to it
+   */
+  private npmCacheId(registryUrl: string): string {
+    return registryCacheId(
+      registryUrl,
+      npmAuthHeaders(registryUrl, this.npmLookupConfig).Authorization,
+    );
   }
 
   /**
    * Lookup package version from npm registry
+   * Scoped packages are looked up on the registry configured for their scope
    */
   async lookupPackageVersion(packageName: string): Promise<string> {
-    try {
-      const response = await fetch(
-        `https://registry.npmjs.org/${packageName}/latest`,
-      );
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      const data = await response.json();
-      return `^${data.version}`;
-    } catch (error) {
-      console.warn(`Failed to lookup version for ${packageName}:`, error);
-      // Fallback to latest
-      return "latest";
+    const { npmRegistryUrl, timeoutMs, cacheTtlSeconds } = this.registry;
+    const registryUrl = npmRegistryForPackage(
+      packageName,
+      npmRegistryUrl,
+      this.npmLookupConfig,
+    );
+    const version = await cachedRegistryLookup<string>(
+      `npm:${this.npmCacheId(registryUrl)}:${packageName}`,
+      cacheTtlSeconds,
+      async () => {
+        try {
+          const data = await fetchRegistryJson(
+            `${registryUrl}/${packageName}/latest`,
+            timeoutMs,
+            npmAuthHeaders(registryUrl, this.npmLookupConfig),
+          );
+          return data.version ?? null;
+        } catch (error) {
+          console.warn(`Failed to lookup version for ${packageName}:`, error);
+          return null;
+        }
+      },
+    );
+    // Fallback to latest
+    return version ? `^${version}` : "latest";
+  }
+
+  /**
+   * List every published version of a package from its packument
+   */
+  async listPackageVersions(packageName: string): Promise<string[] | null> {
+    const { npmRegistryUrl, timeoutMs, cacheTtlSeconds } = this.registry;
+    const registryUrl = npmRegistryForPackage(
+      packageName,
+      npmRegistryUrl,
+      this.npmLookupConfig,
+    );
+    return await cachedRegistryLookup<string[]>(
+      `npm-versions:${this.npmCacheId(registryUrl)}:${packageName}`,
+      cacheTtlSeconds,
+      async () => {
+        try {
+          const data = await fetchRegistryJson(
+            `${registryUrl}/${packageName.replace("/", "%2f")}`,
+            timeoutMs,
+            {
+              // Abbreviated metadata is much smaller than the full document
+              Accept: "application/vnd.npm.install-v1+json, application/json",
+              ...npmAuthHeaders(registryUrl, this.npmLookupConfig),
+            },
+          );
+          return data.versions ? Object.keys(data.versions) : null;
+        } catch (error) {
+          console.warn(`Failed to list versions for ${packageName}:`, error);
+          return null;
+        }
+      },
+    );
+  }
+
+  /**
+   * Read the license field of a version's package.json from the registry
+   * Older packages may use the deprecated `{ type }` object or `licenses` array
+   */
+  async lookupPackageLicense(
+    packageName: string,
+    version: string | null,
+  ): Promise<string | null> {
+    const { npmRegistryUrl, timeoutMs, cacheTtlSeconds } = this.registry;
+    const registryUrl = npmRegistryForPackage(
+      packageName,
+      npmRegistryUrl,
+      this.npmLookupConfig,
+    );
+    // Wrapped so packages without a license are cached too
+    const result = await cachedRegistryLookup<{ license: string | null }>(
+      `npm-license:${this.npmCacheId(registryUrl)}:${packageName}@${version ?? "latest"}`,
+      cacheTtlSeconds,
+      async () => {
+        try {
+          const data = await fetchRegistryJson(
+            `${registryUrl}/${packageName}/${version ?? "latest"}`,
+            timeoutMs,
+            npmAuthHeaders(registryUrl, this.npmLookupConfig),
+          );
+          const licenses: unknown[] = [data.license ?? data.licenses ?? []]
+            .flat()
+            .map((entry) =>
+              typeof entry === "object" && entry !== null
+                ? (entry as { type?: unknown }).type
+                : entry,
+            )
+            .filter((entry) => typeof entry === "string" && entry);
+          return {
+            license: licenses.length > 0 ? licenses.join(" OR ") : null,
+          };
+        } catch (error) {
+          console.warn(`Failed to lookup license for ${packageName}:`, error);
+          return null;
+        }
+      },
+    );
+    return result?.license ?? null;
+  }
+
+  /**
+   * Find the @types package for a package that doesn't ship its own types
+   * Returns null when the package has types or no @types package exists
+   */
+  async lookupTypesPackage(
+    packageName: string,
+  ): Promise<{ name: string; version: string } | null> {
+    const { npmRegistryUrl, timeoutMs, cacheTtlSeconds } = this.registry;
+    const registryUrl = npmRegistryForPackage(
+      packageName,
+      npmRegistryUrl,
+      this.npmLookupConfig,
+    );
+    const typesName = typesPackageName(packageName);
+    const typesRegistryUrl = npmRegistryForPackage(
+      typesName,
+      npmRegistryUrl,
+      this.npmLookupConfig,
+    );
+
+    // Cached as an object so "no @types package needed" is cached too
+    const result = await cachedRegistryLookup<{ version: string | null }>(
+      `npm-types:${this.npmCacheId(registryUrl)}:${this.npmCacheId(typesRegistryUrl)}:${packageName}`,
+      cacheTtlSeconds,
+      async () => {
+        try {
+          const manifest = await fetchRegistryJson(
+            `${registryUrl}/${packageName}/latest`,
+            timeoutMs,
+            npmAuthHeaders(registryUrl, this.npmLookupConfig),
+          );
+          const bundlesTypes =
+            Boolean(manifest.types || manifest.typings) ||
+            JSON.stringify(manifest.exports ?? {}).includes('"types"');
+          if (bundlesTypes) {
+            return { version: null };
+          }
+        } catch (error) {
+          console.warn(`Failed to check types for ${packageName}:`, error);
+          return null;
+        }
+
+        try {
+          const types = await fetchRegistryJson(
+            `${typesRegistryUrl}/${typesName}/latest`,
+            timeoutMs,
+            npmAuthHeaders(typesRegistryUrl, this.npmLookupConfig),
+          );
+          return { version: types.version ?? null };
+        } catch {
+          // Not every package without bundled types has an @types package
+          return { version: null };
+        }
+      },
+    );
+    return result?.version
+      ? { name: typesName, version: `^${result.version}` }
+      : null;
+  }
+
+  /**
+   * Type packages a TypeScript file needs to type-check: @types/node when it
+   * uses Node.js APIs, and @types packages for imports without bundled types
+   */
+  protected async resolveTypePackages(
+    code: string,
+    filename: string,
+    packages: string[],
+    providedPackageNames: Set<string>,
+  ): Promise<Record<string, string>> {
+    const typePackages: Record<string, string> = {};
+    if (
+      this.usesNodeApis(code, filename) &&
+      !providedPackageNames.has("@types/node")
+    ) {
+      typePackages["@types/node"] =
+        await this.lookupPackageVersion("@types/node");
     }
+
+    const candidates = packages.filter(
+      (pkg) =>
+        !pkg.startsWith("@types/") &&
+        !providedPackageNames.has(typesPackageName(pkg)),
+    );
+    const found = await mapWithConcurrency(
+      candidates,
+      this.registry.concurrency,
+      (pkg) => this.lookupTypesPackage(pkg),
+    );
+    for (const types of found) {
+      if (types) typePackages[types.name] = types.version;
+    }
+    return typePackages;
   }
 
   /**
    * Resolve all dependencies for a TypeScript file
+   * Type-only imports are returned as devDependencies, along with the @types
+   * packages TypeScript files need to type-check
    */
   async resolveDependencies(
     code: string,
     providedDependencies?: Record<string, string>,
+    filename?: string,
+    context?: BundleContext,
   ): Promise<DependencyInfo> {
     // Discover dependencies from import statements
-    const discoveredPackages = this.extractImports(code);
+    const { runtime, typeOnly, local, registrySpecifiers } =
+      this.classifyPackages(code, filename, context);
     const providedPackageNames = new Set(
       Object.keys(providedDependencies || {}),
     );
 
-    // Lookup versions for each package (skip if already provided)
-    const dependencies: Record<string, string> = {};
-    for (const pkg of discoveredPackages) {
-      if (providedPackageNames.has(pkg)) {
-        // Skip npm lookup if user already provided this package version
-        console.log(
-          `Skipping npm lookup for "${pkg}" - version provided by user`,
-        );
-        continue;
-      }
+    // Lookup versions concurrently for each package (skip if already provided)
+    const lookup = async (packages: string[]) => {
+      const pending = packages.filter((pkg) => {
+        if (providedPackageNames.has(pkg)) {
+          // Skip npm lookup if user already provided this package version
+          console.log(
+            `Skipping npm lookup for "${pkg}" - version provided by user`,
+          );
+          return false;
+        }
+        return true;
+      });
 
-      try {
-        dependencies[pkg] = await this.lookupPackageVersion(pkg);
-      } catch (error) {
-        console.warn(`Failed to resolve ${pkg}, using latest:`, error);
-        dependencies[pkg] = "latest";
-      }
-    }
+      // Inline pins are used as written and the Kernel SDK is held to the
+      // supported range; JSR packages install via an alias
+      const results = await mapWithConcurrency(
+        pending,
+        this.registry.concurrency,
+        async (pkg) => {
+          const registrySpecifier = registrySpecifiers[pkg];
+          let version: string;
+          try {
+            version =
+              registrySpecifier?.version ??
+              (pkg === this.kernelSdk.package
+                ? this.kernelSdk.constraint
+                : null) ??
+              (await this.lookupPackageVersion(
+                registrySpecifier?.installName ?? pkg,
+              ));
+          } catch (error) {
+            console.warn(`Failed to resolve ${pkg}, using latest:`, error);
+            version = "latest";
+          }
+          return registrySpecifier
+            ? dependencyVersionFor(registrySpecifier, version)
+            : version;
+        },
+      );
+      return Object.fromEntries(
+        pending.map((pkg, index) => [pkg, results[index]]),
+      );
+    };
 
-    return { discoveredPackages, dependencies };
+    // JavaScript files aren't type-checked
+    const scriptKind = scriptKindFor(filename ?? "index.ts");
+    const typePackages =
+      scriptKind === ts.ScriptKind.TS || scriptKind === ts.ScriptKind.TSX
+        ? await this.resolveTypePackages(
+            code,
+            filename ?? "index.ts",
+            // JSR packages are published as TypeScript
+            [...runtime, ...typeOnly].filter(
+              (pkg) => registrySpecifiers[pkg]?.registry !== "jsr",
+            ),
+            providedPackageNames,
+          )
+        : {};
+
+    return {
+      discoveredPackages: [...runtime, ...typeOnly],
+      dependencies: await lookup(runtime),
+      devDependencies: { ...typePackages, ...(await lookup(typeOnly)) },
+      localModules: local,
+    };
+  }
+
+  /**
+   * Render the bundle's .npmrc, adding JSR's registry when a dependency
+   * installs from it
+   */
+  protected renderNpmrcFor(
+    dependencies: Record<string, string>,
+    devDependencies: Record<string, string> = {},
+  ): string | null {
+    const usesJsr = [
+      ...Object.values(dependencies),
+      ...Object.values(devDependencies),
+    ].some((version) => version.startsWith("npm:@jsr/"));
+    const config = this.registry.registries.npm;
+    return renderNpmrc(usesJsr ? withJsrScope(config) : config);
+  }
+
+  /**
+   * Tokens for the registries the generated .npmrc references
+   */
+  registryEnvironment(): Record<string, string> {
+    return npmRegistryEnv(this.registry.registries.npm);
   }
 
   /**
@@ -107,6 +995,8 @@ export class TypeScriptResolver implements LanguageResolver {
     filename: string,
     entrypointRelPath: string,
     dependencies: Record<string, string>,
+    devDependencies: Record<string, string> = {},
+    context?: BundleContext,
   ): ProjectFiles {
     const packageJson = {
       name: filename.replace(/\.ts$/, ""),
@@ -119,24 +1009,144 @@ export class TypeScriptResolver implements LanguageResolver {
         typescript: "^5",
       },
       dependencies,
+      ...(Object.keys(devDependencies).length > 0 && { devDependencies }),
     };
 
+    // Apps run under bun, which resolves modules like a bundler
+    const layout = describeTypeScriptLayout(
+      context?.files ?? {},
+      entrypointRelPath,
+    );
     const tsConfig = {
       compilerOptions: {
         target: "ES2022",
         module: "ESNext",
-        moduleResolution: "Node",
+        moduleResolution: "Bundler",
         strict: true,
         esModuleInterop: true,
         resolveJsonModule: true,
+        skipLibCheck: true,
         forceConsistentCasingInFileNames: true,
+        ...(layout.jsx && { jsx: "react-jsx" }),
+        ...(layout.tsExtensionImports && {
+          allowImportingTsExtensions: true,
+          noEmit: true,
+        }),
       },
-      include: ["src/**/*"],
+      include: layout.include,
     };
 
+    const npmrc = this.renderNpmrcFor(dependencies, devDependencies);
+
     return {
       "package.json": JSON.stringify(packageJson, null, 2),
       "tsconfig.json": JSON.stringify(tsConfig, null, 2),
+      ...(npmrc && { ".npmrc": npmrc }),
+    };
+  }
+
+  /**
+   * Read every dependency declared in a user-supplied package.json
+   */
+  readDeclaredDependencies(
+    files: Record<string, string>,
+  ): Record<string, string> {
+    const declared: Record<string, string> = {};
+    for (const dependency of this.listDeclaredDependencies(files)) {
+      declared[dependency.package] = dependency.constraint;
+    }
+    return declared;
+  }
+
+  /**
+   * List package.json dependencies with the field declaring each
+   */
+  listDeclaredDependencies(
+    files: Record<string, string>,
+  ): DeclaredDependency[] {
+    const packageJson = parsePackageJson(files);
+    const declared: DeclaredDependency[] = [];
+    for (const field of PACKAGE_JSON_DEPENDENCY_FIELDS) {
+      for (const [pkg, constraint] of Object.entries(
+        packageJson?.[field] ?? {},
+      )) {
+        if (typeof constraint === "string") {
+          declared.push({
+            package: pkg,
+            constraint,
+            source: `package.json#${field}`,
+          });
+        }
+      }
+    }
+    return declared;
+  }
+
+  /**
+   * Add missing dependencies to a user-supplied package.json
+   * Declared dependencies are rewritten, in every field declaring them, when
+   * their final constraint differs, e.g. a provided override; scripts,
+   * engines and other fields are left untouched
+   */
+  mergeIntoManifests(
+    files: Record<string, string>,
+    dependencies: Record<string, string>,
+    devDependencies: Record<string, string> = {},
+  ): ManifestMergeResult | null {
+    const packageJson = parsePackageJson(files);
+    if (!packageJson) {
+      return null;
+    }
+
+    const added: Record<string, string> = {};
+    const replaced: Record<string, string> = {};
+    const merge = (
+      field: "dependencies" | "devDependencies",
+      packages: Record<string, string>,
+    ) => {
+      for (const [pkg, version] of Object.entries(packages)) {
+        if (pkg in added || pkg in replaced) continue;
+        const declaredIn = PACKAGE_JSON_DEPENDENCY_FIELDS.filter(
+          (f) => typeof packageJson[f]?.[pkg] === "string",
+        );
+        if (declaredIn.length === 0) {
+          packageJson[field] = {
+            ...(packageJson[field] ?? {}),
+            [pkg]: version,
+          };
+          added[pkg] = version;
+          continue;
+        }
+        for (const declaredField of declaredIn) {
+          if (packageJson[declaredField][pkg] !== version) {
+            packageJson[declaredField] = {
+              ...packageJson[declaredField],
+              [pkg]: version,
+            };
+            replaced[pkg] = version;
+          }
+        }
+      }
+    };
+    merge("dependencies", dependencies);
+    merge("devDependencies", devDependencies);
+
+    const changed =
+      Object.keys(added).length > 0 || Object.keys(replaced).length > 0;
+    const updated: ManifestUpdate[] = changed
+      ? [
+          {
+            manifest: "package.json",
+            added,
+            ...(Object.keys(replaced).length > 0 && { replaced }),
+          },
+        ]
+      : [];
+    return {
+      files: changed
+        ? { "package.json": JSON.stringify(packageJson, null, 2) + "\n" }
+        : {},
+      updated,
     };
   }
 
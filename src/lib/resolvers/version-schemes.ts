@@ -0,0 +1,82 @@
+// How each ecosystem names packages and interprets version constraints, so
+// constraint checks can be written once for every language
+
+import semver from "semver";
+import { maxSatisfyingVersion, parseSpecifiers } from "./pep440";
+import { normalizeDistributionName } from "./python-manifests";
+import { VersionScheme } from "./types";
+
+// npm specifiers that are valid but can't be checked against a version list:
+// dist-tags ("latest", "next") and protocol or path specifiers
+const NPM_TAG = /^[a-z][a-z0-9._-]*$/i;
+const NPM_NON_REGISTRY = /^(?:[a-z+]+:|[.~/]|[\w.-]+\/[\w.-]+(?:#.*)?$)/i;
+
+export const npmVersionScheme: VersionScheme = {
+  normalizeName: (name) => name,
+
+  classify(constraint) {
+    const trimmed = constraint.trim();
+    if (semver.validRange(trimmed) !== null) {
+      return "checkable";
+    }
+    if (NPM_TAG.test(trimmed) || NPM_NON_REGISTRY.test(trimmed)) {
+      return "unchecked";
+    }
+    return "invalid";
+  },
+
+  maxSatisfying(versions, constraints) {
+    // With no constraints, "*" keeps pre-releases out like any other range
+    const ranges = constraints.length > 0 ? constraints : ["*"];
+    const matching = versions.filter(
+      (version) =>
+        semver.valid(version) !== null &&
+        ranges.every((range) => semver.satisfies(version, range.trim())),
+    );
+    return semver.rsort(matching)[0] ?? null;
+  },
+
+  exact: (version) => version,
+};
+
+/**
+ * Strip extras and environment markers from a Python requirement spec
+ * (`[socks]>=2.31; python_version>"3.8"` -> `>=2.31`)
+ */
+function toSpecifierText(constraint: string): string {
+  return constraint
+    .replace(/;.*$/, "")
+    .replace(/^\s*\[[^\]]*\]/, "")
+    .trim();
+}
+
+/**
+ * Build the PEP 440 scheme; names are compared after mapping import names to
+ * distributions and PEP 503 normalization
+ */
+export function createPep440VersionScheme(
+  toDistributionName: (name: string) => string = (name) => name,
+): VersionScheme {
+  return {
+    normalizeName: (name) =>
+      normalizeDistributionName(toDistributionName(name)),
+
+    classify(constraint) {
+      const text = toSpecifierText(constraint);
+      // Direct references (`@ https://...`) aren't published versions
+      if (text.startsWith("@")) {
+        return "unchecked";
+      }
+      return parseSpecifiers(text) === null ? "invalid" : "checkable";
+    },
+
+    maxSatisfying(versions, constraints) {
+      const specifiers = constraints.flatMap(
+        (constraint) => parseSpecifiers(toSpecifierText(constraint)) ?? [],
+      );
+      return maxSatisfyingVersion(versions, specifiers);
+    },
+
+    exact: (version) => `==${version}`,
+  };
+}